@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { parseCount, parseList, parseMode, parseThresholds, UsageError } from "./args";
+
+describe("parseMode", () => {
+  it("defaults to standard and rejects unknown modes", () => {
+    expect(parseMode(undefined)).toBe("standard");
+    expect(parseMode("deep")).toBe("deep");
+    expect(() => parseMode("thorough")).toThrow(new UsageError("--mode must be one of: quick, standard, deep"));
+  });
+});
+
+describe("parseCount", () => {
+  it("accepts non-negative integers only", () => {
+    expect(parseCount("0", "--timeout")).toBe(0);
+    expect(parseCount("42", "--timeout")).toBe(42);
+    for (const value of ["-1", "1.5", "ten", ""]) {
+      expect(() => parseCount(value, "--timeout")).toThrow(UsageError);
+    }
+    expect(() => parseCount("-1", "--timeout")).toThrow('--timeout must be a non-negative integer, got "-1"');
+  });
+});
+
+describe("parseThresholds", () => {
+  it("keeps only the given limits", () => {
+    expect(parseThresholds({})).toEqual({});
+    expect(parseThresholds({ "max-critical": "0", "max-minor": "25" })).toEqual({ critical: 0, minor: 25 });
+  });
+
+  it("names the invalid option", () => {
+    expect(() => parseThresholds({ "max-major": "many" })).toThrow(/^--max-major must be/);
+  });
+});
+
+describe("parseList", () => {
+  const formats = ["markdown", "json", "sarif"] as const;
+
+  it("splits on commas, trims and drops duplicates", () => {
+    expect(parseList(undefined, formats, "--format")).toEqual([]);
+    expect(parseList(["markdown, json", "json,", "sarif"], formats, "--format")).toEqual(["markdown", "json", "sarif"]);
+  });
+
+  it("rejects values that are not allowed", () => {
+    expect(() => parseList(["json,pdf"], formats, "--format")).toThrow(
+      new UsageError("--format must be one of: markdown, json, sarif")
+    );
+  });
+});
@@ -0,0 +1,62 @@
+import type { Thresholds } from "./output";
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+export const analysisModes = ["quick", "standard", "deep"] as const;
+export type AnalysisMode = (typeof analysisModes)[number];
+
+export function parseMode(value: string | undefined): AnalysisMode {
+  const mode = value ?? "standard";
+  if (!(analysisModes as ReadonlyArray<string>).includes(mode)) {
+    throw new UsageError(`--mode must be one of: ${analysisModes.join(", ")}`);
+  }
+  return mode as AnalysisMode;
+}
+
+export function parseCount(value: string, option: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new UsageError(`${option} must be a non-negative integer, got "${value}"`);
+  }
+  return parseInt(value, 10);
+}
+
+export function parseThresholds(values: {
+  "max-critical"?: string;
+  "max-major"?: string;
+  "max-minor"?: string;
+}): Thresholds {
+  const thresholds: Thresholds = {};
+  if (values["max-critical"] !== undefined) thresholds.critical = parseCount(values["max-critical"], "--max-critical");
+  if (values["max-major"] !== undefined) thresholds.major = parseCount(values["max-major"], "--max-major");
+  if (values["max-minor"] !== undefined) thresholds.minor = parseCount(values["max-minor"], "--max-minor");
+  return thresholds;
+}
+
+// Options shared by every subcommand that reports issues
+export const thresholdOptions = {
+  "max-critical": { type: "string" },
+  "max-major": { type: "string" },
+  "max-minor": { type: "string" },
+} as const;
+
+// Repeatable but not comma separated, since globs may contain {a,b}
+export const globOptions = {
+  include: { type: "string", multiple: true },
+  exclude: { type: "string", multiple: true },
+} as const;
+
+// Repeatable and comma separated: --format markdown,json --format sarif
+export function parseList<T extends string>(values: string[] | undefined, allowed: readonly T[], option: string): T[] {
+  const items = (values ?? []).flatMap((value) => value.split(",")).map((item) => item.trim()).filter(Boolean);
+  for (const item of items) {
+    if (!(allowed as ReadonlyArray<string>).includes(item)) {
+      throw new UsageError(`${option} must be one of: ${allowed.join(", ")}`);
+    }
+  }
+  return Array.from(new Set(items)) as T[];
+}
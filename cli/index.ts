@@ -0,0 +1,83 @@
+import "dotenv/config";
+import { UsageError } from "./args";
+import { analyzeCommand, analyzeUsage } from "./remote";
+
+interface CommandModule {
+  usage: string;
+  run: (argv: string[]) => Promise<number>;
+}
+
+type Command = {
+  description: string;
+  // The local command imports the server modules, which validate their
+  // environment variables on import, so it is only loaded when used
+  load: () => Promise<CommandModule>;
+};
+
+const commands: Record<string, Command> = {
+  analyze: {
+    description: "Submit a directory or repository URL to a ScriptoAI server",
+    load: async () => ({ usage: analyzeUsage, run: analyzeCommand }),
+  },
+  local: {
+    description: "Analyze a directory in place without a server",
+    load: async () => {
+      const { localCommand, localUsage } = await import("./local");
+      return { usage: localUsage, run: localCommand };
+    },
+  },
+};
+
+const usage = `Usage: scripto <command> [options]
+
+Commands:
+${Object.entries(commands)
+  .map(([name, command]) => `  ${name.padEnd(12)}${command.description}`)
+  .join("\n")}
+
+Run "scripto <command> --help" for command options.
+
+Exit codes: 0 on success, 1 when issue thresholds are exceeded, 2 on errors.`;
+
+async function main(argv: string[]): Promise<number> {
+  const [name, ...rest] = argv;
+  if (!name || name === "--help" || name === "-h" || name === "help") {
+    console.log(usage);
+    return 0;
+  }
+
+  if (!commands[name]) {
+    console.error(`Unknown command "${name}"\n\n${usage}`);
+    return 2;
+  }
+
+  let command: CommandModule;
+  try {
+    command = await commands[name].load();
+  } catch (error) {
+    // e.g. an invalid LLM_PROVIDER or LLM_CACHE
+    console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    return 2;
+  }
+  if (rest.includes("--help") || rest.includes("-h")) {
+    console.log(command.usage);
+    return 0;
+  }
+
+  try {
+    return await command.run(rest);
+  } catch (error) {
+    // parseArgs reports unknown or malformed options with a TypeError carrying an ERR_PARSE_ARGS_* code
+    const code = (error as NodeJS.ErrnoException).code;
+    if (error instanceof UsageError || code?.startsWith("ERR_PARSE_ARGS")) {
+      console.error(`${(error as Error).message}\n\n${command.usage}`);
+    } else {
+      console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return 2;
+  }
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { execFile } from "child_process";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+
+const root = path.resolve(__dirname, "..");
+const tsx = path.join(root, "node_modules", ".bin", "tsx");
+
+// Run the CLI in a child process, as `npm run scripto` does, without an LLM
+function scripto(args: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+  const env = { ...process.env, LLM_PROVIDER: "none", LLM_CACHE: "memory" };
+  return new Promise((resolve) => {
+    const options = { cwd: root, env, timeout: 60000 };
+    execFile(tsx, [path.join(root, "cli", "index.ts"), ...args], options, (error, stdout, stderr) =>
+      resolve({ code: error ? Number(error.code) : 0, stdout, stderr })
+    );
+  });
+}
+
+describe("scripto local", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "scripto-local-"));
+    await fs.writeFile(path.join(dir, "a.js"), "var a = 1;\nexport { a };\n");
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("prints a summary and writes the reports", async () => {
+    const out = path.join(dir, "reports");
+
+    const { code, stdout, stderr } = await scripto(["local", dir, "--out", out, "--format", "json,markdown"]);
+
+    expect(code).toBe(0);
+    expect(stdout).toMatch(/^Request: {3}req-/m);
+    expect(stdout).toContain("Files:     1");
+    expect(stdout).toMatch(/minor {10}1 {4}-/);
+    expect(stdout).toMatch(/a\.js {7}1/);
+
+    const reports = (await fs.readdir(out)).sort();
+    expect(stderr).toContain(`Saved ${path.join(out, reports[0])}`);
+    expect(reports).toEqual([expect.stringMatching(/^analysis-req-.+\.json$/), expect.stringMatching(/\.md$/)]);
+    const report = JSON.parse(await fs.readFile(path.join(out, reports[0]), "utf-8"));
+    expect(report).toMatchObject({ status: "completed", issues: [{ file: "a.js", line: 1, rule: "eslint/no-var" }] });
+  });
+
+  it("exits with 1 when an issue count is above its threshold", async () => {
+    const { code, stderr } = await scripto(["local", dir, "--out", dir, "--format", "json", "--max-minor", "0"]);
+
+    expect(code).toBe(1);
+    expect(stderr).toContain("Thresholds exceeded: 1 minor issues (max 0)");
+  });
+
+  it("exits with 2 and prints the usage for invalid options", async () => {
+    const { code, stdout, stderr } = await scripto(["local", dir, "--format", "pdf"]);
+
+    expect(code).toBe(2);
+    expect(stdout).toBe("");
+    expect(stderr).toMatch(/^--format must be one of: .*\n\nUsage: scripto local/);
+  });
+});
@@ -0,0 +1,93 @@
+import * as fs from "fs/promises";
+import { parseArgs } from "util";
+import { analysisResultSchema, type AnalysisResult } from "@shared/schema";
+import { analyzeLocal, reportFormats, writeReports } from "../server/lib";
+import { globOptions, parseList, parseMode, parseThresholds, thresholdOptions, UsageError } from "./args";
+import { exceededThresholds, formatSummary } from "./output";
+
+export const localUsage = `Usage: scripto local [directory] [options]
+
+Analyze a directory in place with the same pipeline the server runs. LLM
+providers are configured from the environment, as for the server.
+
+Options:
+  --mode <mode>          quick, standard or deep (default: standard)
+  --format <formats>     Reports to write: ${reportFormats.join(", ")} (default: all)
+  --out <dir>            Directory for the reports (default: .)
+  --no-cache             Ignore cached LLM answers (fresh answers are still cached)
+  --baseline <file>      JSON report of an earlier run; only changed files are re-analyzed
+  --include <glob>       Only analyze matching files; repeatable
+  --exclude <glob>       Skip matching files; repeatable
+  --max-critical <n>     Exit with code 1 if there are more critical issues
+  --max-major <n>        Exit with code 1 if there are more major issues
+  --max-minor <n>        Exit with code 1 if there are more minor issues`;
+
+// The JSON report written by an earlier run, which carries every file's content
+async function readBaseline(file: string): Promise<AnalysisResult> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await fs.readFile(file, "utf-8"));
+  } catch {
+    throw new UsageError(`Cannot read baseline report ${file}`);
+  }
+
+  const parsed = analysisResultSchema.safeParse(json);
+  if (!parsed.success || parsed.data.status !== "completed") {
+    throw new UsageError(`${file} is not the JSON report of a completed analysis`);
+  }
+  return parsed.data;
+}
+
+export async function localCommand(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      mode: { type: "string" },
+      format: { type: "string", multiple: true },
+      out: { type: "string" },
+      "no-cache": { type: "boolean" },
+      baseline: { type: "string" },
+      ...globOptions,
+      ...thresholdOptions,
+    },
+  });
+
+  if (positionals.length > 1) {
+    throw new UsageError("Expected at most one directory");
+  }
+
+  const mode = parseMode(values.mode);
+  const formats = parseList(values.format, reportFormats, "--format");
+  const thresholds = parseThresholds(values);
+  const baseline = values.baseline ? await readBaseline(values.baseline) : undefined;
+
+  let lastMessage = "";
+  const result = await analyzeLocal(positionals[0] ?? ".", {
+    analysisMode: mode,
+    bypassCache: values["no-cache"],
+    baseline,
+    include: values.include,
+    exclude: values.exclude,
+    onProgress: (progress) => {
+      if (progress.message !== lastMessage) {
+        console.error(progress.message);
+        lastMessage = progress.message;
+      }
+    },
+  });
+
+  console.log(formatSummary(result, thresholds));
+
+  const written = await writeReports(result, values.out ?? ".", formats.length > 0 ? formats : reportFormats);
+  for (const file of written) {
+    console.error(`Saved ${file}`);
+  }
+
+  const exceeded = exceededThresholds(result, thresholds);
+  if (exceeded.length > 0) {
+    console.error(`Thresholds exceeded: ${exceeded.join(", ")}`);
+    return 1;
+  }
+  return 0;
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import type { AnalysisIssue, AnalysisResult } from "@shared/schema";
+import { exceededThresholds, formatSummary, issueCounts } from "./output";
+
+function issue(severity: AnalysisIssue["severity"], file = "a.js"): AnalysisIssue {
+  return { severity, file, line: 1, message: "message", rule: "eslint/no-var" };
+}
+
+function result(issues: AnalysisIssue[], extra: Partial<AnalysisResult> = {}): AnalysisResult {
+  return { request_id: "req-1", status: "completed", issues, ...extra };
+}
+
+describe("issueCounts", () => {
+  it("counts issues by severity", () => {
+    expect(issueCounts(result([issue("major"), issue("minor"), issue("major")]))).toEqual({
+      critical: 0,
+      major: 2,
+      minor: 1,
+    });
+  });
+
+  it("prefers the summary's counts", () => {
+    const counts = { critical: 3, major: 0, minor: 0 };
+    const summary = { total_files_analyzed: 1, languages: [], issues_count: counts };
+
+    expect(issueCounts(result([issue("minor")], { summary }))).toBe(counts);
+  });
+});
+
+describe("formatSummary", () => {
+  it("prints the counts with their limits and the files with the most issues", () => {
+    const issues = [issue("critical", "b.js"), issue("minor", "a.js"), issue("major", "b.js")];
+    const summary = {
+      total_files_analyzed: 2,
+      languages: ["JavaScript"],
+      issues_count: { critical: 1, major: 1, minor: 1 },
+    };
+
+    expect(formatSummary(result(issues, { summary }), { critical: 0 })).toBe(
+      [
+        "Request:   req-1",
+        "Files:     2",
+        "Languages: JavaScript",
+        "",
+        "Severity  Issues  Max",
+        "--------  ------  ---",
+        "critical       1    0",
+        "major          1    -",
+        "minor          1    -",
+        "",
+        "File  Issues",
+        "----  ------",
+        "b.js       2",
+        "a.js       1",
+      ].join("\n")
+    );
+  });
+
+  it("mentions the commit, baseline, suppressed and skipped files", () => {
+    const output = formatSummary(
+      result([], {
+        source: { commit_sha: "abc123" },
+        incremental: { baseline_job_id: "req-0", analyzed_files: 2, reused_files: 5 },
+        suppressed: [{ ...issue("minor"), suppressed_by: "inline" }],
+        skipped: [{ file: "big.js", reason: "too_large" }],
+      })
+    );
+
+    expect(output).toContain("Languages: none");
+    expect(output).toContain("Commit:    abc123");
+    expect(output).toContain("Baseline:  req-0 (2 analyzed, 5 unchanged)");
+    expect(output).toContain("Suppressed: 1 (not counted below)");
+    expect(output).toContain("Skipped:   1 files");
+    expect(output).not.toContain("File  Issues");
+  });
+});
+
+describe("exceededThresholds", () => {
+  const issues = [issue("critical"), issue("major"), issue("major")];
+
+  it("reports each severity above its limit", () => {
+    expect(exceededThresholds(result(issues), { critical: 0, major: 1, minor: 0 })).toEqual([
+      "1 critical issues (max 0)",
+      "2 major issues (max 1)",
+    ]);
+  });
+
+  it("allows counts at the limit and severities without one", () => {
+    expect(exceededThresholds(result(issues), { critical: 1, major: 2 })).toEqual([]);
+    expect(exceededThresholds(result(issues), {})).toEqual([]);
+  });
+});
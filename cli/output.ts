@@ -0,0 +1,77 @@
+import type { AnalysisResult } from "@shared/schema";
+
+type Severity = "critical" | "major" | "minor";
+
+const severities: Severity[] = ["critical", "major", "minor"];
+
+// Maximum number of issues allowed per severity; unset means unlimited
+export type Thresholds = Partial<Record<Severity, number>>;
+
+function table(header: string[], rows: string[][]): string {
+  const widths = header.map((cell, column) =>
+    Math.max(cell.length, ...rows.map((row) => row[column].length))
+  );
+  const format = (row: string[]) =>
+    row.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))).join("  ");
+  return [format(header), widths.map((width) => "-".repeat(width)).join("  "), ...rows.map(format)].join("\n");
+}
+
+export function issueCounts(result: AnalysisResult): Record<Severity, number> {
+  const issues = result.issues || [];
+  return result.summary?.issues_count ?? {
+    critical: issues.filter((issue) => issue.severity === "critical").length,
+    major: issues.filter((issue) => issue.severity === "major").length,
+    minor: issues.filter((issue) => issue.severity === "minor").length,
+  };
+}
+
+export function formatSummary(result: AnalysisResult, thresholds: Thresholds = {}): string {
+  const counts = issueCounts(result);
+  const lines = [
+    `Request:   ${result.request_id}`,
+    `Files:     ${result.summary?.total_files_analyzed ?? 0}`,
+    `Languages: ${result.summary?.languages.join(", ") || "none"}`,
+    ...(result.source?.commit_sha ? [`Commit:    ${result.source.commit_sha}`] : []),
+    ...(result.incremental
+      ? [
+          `Baseline:  ${result.incremental.baseline_job_id} ` +
+            `(${result.incremental.analyzed_files} analyzed, ${result.incremental.reused_files} unchanged)`,
+        ]
+      : []),
+    ...(result.suppressed?.length ? [`Suppressed: ${result.suppressed.length} (not counted below)`] : []),
+    ...(result.skipped?.length ? [`Skipped:   ${result.skipped.length} files`] : []),
+    "",
+    table(
+      ["Severity", "Issues", "Max"],
+      severities.map((severity) => [
+        severity,
+        String(counts[severity]),
+        thresholds[severity] === undefined ? "-" : String(thresholds[severity]),
+      ])
+    ),
+  ];
+
+  const byFile = new Map<string, number>();
+  for (const issue of result.issues || []) {
+    byFile.set(issue.file, (byFile.get(issue.file) ?? 0) + 1);
+  }
+  if (byFile.size > 0) {
+    const top = Array.from(byFile.entries())
+      .sort(([a, aCount], [b, bCount]) => bCount - aCount || a.localeCompare(b))
+      .slice(0, 10);
+    lines.push("", table(["File", "Issues"], top.map(([file, count]) => [file, String(count)])));
+  }
+
+  return lines.join("\n");
+}
+
+// One message per severity whose count is above its threshold
+export function exceededThresholds(result: AnalysisResult, thresholds: Thresholds): string[] {
+  const counts = issueCounts(result);
+  return severities.flatMap((severity) => {
+    const max = thresholds[severity];
+    return max !== undefined && counts[severity] > max
+      ? [`${counts[severity]} ${severity} issues (max ${max})`]
+      : [];
+  });
+}
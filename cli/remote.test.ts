@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import AdmZip from "adm-zip";
+import type { AnalysisJob, AnalysisResult } from "@shared/schema";
+import { UsageError } from "./args";
+import { analyzeCommand } from "./remote";
+
+// A ScriptoAI server that finishes every job at once with `result`. Only the
+// JSON report can be downloaded.
+function fakeServer(result: Partial<AnalysisResult> = {}, status: AnalysisJob["status"] = "completed") {
+  const submitted: FormData[] = [];
+  const fetch = vi.fn(async (url: URL, init?: RequestInit) => {
+    if (url.pathname === "/api/analyze") {
+      submitted.push(init!.body as FormData);
+      return Response.json({ request_id: "req-1" });
+    }
+    if (url.pathname === "/api/status/req-1") {
+      return Response.json({
+        id: "req-1",
+        status,
+        results: { request_id: "req-1", status, issues: [], ...result },
+      });
+    }
+    if (url.pathname === "/api/download/req-1/json") {
+      return new Response('{"issues":[]}', {
+        headers: { "content-disposition": 'attachment; filename="analysis-req-1.json"' },
+      });
+    }
+    return Response.json({ message: "Not found" }, { status: 404 });
+  });
+  vi.stubGlobal("fetch", fetch);
+  return { fetch, submitted };
+}
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "scripto-cli-"));
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("analyzeCommand", () => {
+  it("sends $SCRIPTO_REPO_TOKEN with an https:// repository URL", async () => {
+    vi.stubEnv("SCRIPTO_REPO_TOKEN", "ghp_secret");
+    const server = fakeServer();
+
+    expect(await analyzeCommand(["https://github.com/org/private"])).toBe(0);
+    expect(server.submitted[0].get("repo_url")).toBe("https://github.com/org/private");
+    expect(server.submitted[0].get("repo_token")).toBe("ghp_secret");
+  });
+
+  it("does not send the token with a plain http:// URL", async () => {
+    vi.stubEnv("SCRIPTO_REPO_TOKEN", "ghp_secret");
+    const server = fakeServer();
+
+    expect(await analyzeCommand(["http://git.example.com/org/public"])).toBe(0);
+    expect(server.submitted[0].get("repo_url")).toBe("http://git.example.com/org/public");
+    expect(server.submitted[0].has("repo_token")).toBe(false);
+  });
+
+  it("uploads a directory as a zip without .git and node_modules", async () => {
+    const code = path.join(dir, "app");
+    for (const file of ["src/a.js", ".git/HEAD", "node_modules/dep/index.js"]) {
+      await fs.mkdir(path.dirname(path.join(code, file)), { recursive: true });
+      await fs.writeFile(path.join(code, file), "1");
+    }
+    const server = fakeServer();
+
+    expect(await analyzeCommand([code, "--mode", "quick", "--exclude", "vendor/**", "--exclude", "*.min.js"])).toBe(0);
+
+    const form = server.submitted[0];
+    const zip = form.get("code_zip") as File;
+    expect(zip.name).toBe("app.zip");
+    const entries = new AdmZip(Buffer.from(await zip.arrayBuffer())).getEntries();
+    expect(entries.filter((entry) => !entry.isDirectory).map((entry) => entry.entryName)).toEqual(["src/a.js"]);
+    expect(form.get("analysis_mode")).toBe("quick");
+    expect(form.get("exclude")).toBe("vendor/**\n*.min.js");
+    expect(form.has("repo_url")).toBe(false);
+  });
+
+  it("sends a repository URL with its ref instead of uploading", async () => {
+    const server = fakeServer();
+
+    expect(await analyzeCommand(["git@github.com:org/repo.git", "--ref", "v1.2.0", "--no-cache"])).toBe(0);
+
+    const form = server.submitted[0];
+    expect(form.get("repo_url")).toBe("git@github.com:org/repo.git");
+    expect(form.get("ref")).toBe("v1.2.0");
+    expect(form.get("bypass_cache")).toBe("true");
+    expect(form.has("code_zip")).toBe(false);
+  });
+
+  it("rejects invalid arguments before contacting the server", async () => {
+    const server = fakeServer();
+
+    await expect(analyzeCommand([])).rejects.toThrow(UsageError);
+    await expect(analyzeCommand([dir, "https://github.com/org/repo"])).rejects.toThrow(
+      "Expected exactly one directory or repository URL"
+    );
+    await expect(analyzeCommand([dir, "--ref", "main"])).rejects.toThrow("--ref only applies to repository URLs");
+    await expect(analyzeCommand([path.join(dir, "missing")])).rejects.toThrow(
+      /is neither a directory nor a repository URL/
+    );
+    await expect(analyzeCommand([dir, "--mode", "thorough"])).rejects.toThrow(UsageError);
+    await expect(analyzeCommand([dir, "--download", "pdf"])).rejects.toThrow(/^--download must be one of/);
+    expect(server.fetch).not.toHaveBeenCalled();
+  });
+
+  it("exits with 1 when an issue count is above its threshold", async () => {
+    const issues = [{ severity: "critical" as const, file: "a.js", line: 1, message: "m", rule: "eslint/no-undef" }];
+    fakeServer({ issues });
+
+    expect(await analyzeCommand(["https://github.com/org/repo", "--max-critical", "1"])).toBe(0);
+    expect(await analyzeCommand(["https://github.com/org/repo", "--max-critical", "0"])).toBe(1);
+    expect(console.error).toHaveBeenCalledWith("Thresholds exceeded: 1 critical issues (max 0)");
+  });
+
+  it("exits with 2 when the analysis does not complete", async () => {
+    fakeServer({ error: "Clone failed" }, "failed");
+
+    expect(await analyzeCommand(["https://github.com/org/repo", "--max-critical", "0"])).toBe(2);
+    expect(console.error).toHaveBeenCalledWith("Analysis req-1 failed: Clone failed");
+    expect(console.log).not.toHaveBeenCalled();
+  });
+
+  it("saves the requested reports and skips the unavailable ones", async () => {
+    fakeServer();
+    const out = path.join(dir, "reports");
+
+    expect(await analyzeCommand(["https://github.com/org/repo", "--download", "json,patch", "--out", out])).toBe(0);
+
+    expect(await fs.readdir(out)).toEqual(["analysis-req-1.json"]);
+    expect(await fs.readFile(path.join(out, "analysis-req-1.json"), "utf-8")).toBe('{"issues":[]}');
+    expect(console.error).toHaveBeenCalledWith(
+      "Skipping patch: GET /api/download/req-1/patch failed with 404: Not found"
+    );
+  });
+});
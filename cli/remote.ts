@@ -0,0 +1,246 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { parseArgs } from "util";
+import archiver from "archiver";
+import { isTerminalStatus, type AnalysisJob, type AnalysisResult } from "@shared/schema";
+import { globOptions, parseCount, parseList, parseMode, parseThresholds, thresholdOptions, UsageError } from "./args";
+import { exceededThresholds, formatSummary } from "./output";
+
+const downloadFormats = ["markdown", "json", "html", "sarif", "patch", "refactored"] as const;
+type DownloadFormat = (typeof downloadFormats)[number];
+
+const downloadExtensions: Record<DownloadFormat, string> = {
+  markdown: "md",
+  json: "json",
+  html: "html",
+  sarif: "sarif",
+  patch: "patch",
+  refactored: "zip",
+};
+
+const POLL_INTERVAL_MS = 2000;
+
+export const analyzeUsage = `Usage: scripto analyze <directory | repository URL> [options]
+
+Submit code to a ScriptoAI server and wait for the analysis to finish.
+
+Options:
+  --server <url>         Server URL (default: $SCRIPTO_SERVER or http://localhost:5000)
+  --mode <mode>          quick, standard or deep (default: standard)
+  --download <formats>   Reports to save: ${downloadFormats.join(", ")}
+  --out <dir>            Directory for downloaded reports (default: .)
+  --timeout <seconds>    Give up waiting after this long (default: 1800)
+  --no-cache             Ask the server to ignore cached LLM answers
+  --baseline <job id>    Only re-analyze files changed since this completed job
+  --ref <ref>            Branch, tag or full commit SHA of a repository URL
+  --ssh-key <file>       Private deploy key for an SSH repository URL
+  --subpath <dir>        Only analyze this directory of the code
+  --include <glob>       Only analyze matching files; repeatable
+  --exclude <glob>       Skip matching files; repeatable
+  --max-critical <n>     Exit with code 1 if there are more critical issues
+  --max-major <n>        Exit with code 1 if there are more major issues
+  --max-minor <n>        Exit with code 1 if there are more minor issues
+
+An access token for a private HTTPS repository is read from $SCRIPTO_REPO_TOKEN
+so it stays out of the shell history and process list.`;
+
+class ServerClient {
+  constructor(private baseUrl: string) {}
+
+  async request(pathname: string, init?: RequestInit): Promise<Response> {
+    const res = await fetch(new URL(pathname, this.baseUrl), init);
+    if (!res.ok) {
+      let message = res.statusText;
+      try {
+        message = (await res.json()).message ?? message;
+      } catch {
+        // Not a JSON error body
+      }
+      throw new Error(`${init?.method ?? "GET"} ${pathname} failed with ${res.status}: ${message}`);
+    }
+    return res;
+  }
+
+  async json<T>(pathname: string, init?: RequestInit): Promise<T> {
+    return (await this.request(pathname, init)).json() as Promise<T>;
+  }
+}
+
+// Zip a working copy, leaving out VCS metadata and installed dependencies
+async function zipDirectory(dir: string): Promise<Buffer> {
+  const archive = archiver("zip", { zlib: { level: 9 } });
+  const chunks: Buffer[] = [];
+  archive.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<void>((resolve, reject) => {
+    archive.on("end", resolve);
+    archive.on("error", reject);
+  });
+
+  archive.glob("**/*", { cwd: dir, dot: true, ignore: ["**/.git/**", "**/node_modules/**"] });
+  await archive.finalize();
+  await finished;
+  return Buffer.concat(chunks);
+}
+
+function isRepoUrl(target: string): boolean {
+  return /^(https?:\/\/|git@|ssh:\/\/)/.test(target);
+}
+
+interface SubmitOptions {
+  mode: string;
+  bypassCache: boolean;
+  baselineJobId?: string;
+  include?: string[];
+  exclude?: string[];
+  ref?: string;
+  subpath?: string;
+  token?: string;
+  sshKeyFile?: string;
+}
+
+async function submit(client: ServerClient, target: string, options: SubmitOptions): Promise<string> {
+  const form = new FormData();
+  form.set("analysis_mode", options.mode);
+  form.set("bypass_cache", String(options.bypassCache));
+  if (options.baselineJobId) {
+    form.set("baseline_job_id", options.baselineJobId);
+  }
+  // The server takes one glob per line
+  if (options.include) form.set("include", options.include.join("\n"));
+  if (options.exclude) form.set("exclude", options.exclude.join("\n"));
+  if (options.subpath) form.set("subpath", options.subpath);
+
+  if (isRepoUrl(target)) {
+    form.set("repo_url", target);
+    if (options.ref) form.set("ref", options.ref);
+    if (options.sshKeyFile) {
+      form.set("repo_ssh_key", await fs.readFile(options.sshKeyFile, "utf-8"));
+    } else if (options.token && /^https:\/\//i.test(target)) {
+      // Only sent over HTTPS; the server rejects a token for an http:// URL
+      form.set("repo_token", options.token);
+    }
+  } else {
+    if (options.ref || options.sshKeyFile) {
+      throw new UsageError(`${options.ref ? "--ref" : "--ssh-key"} only applies to repository URLs`);
+    }
+    const stat = await fs.stat(target).catch(() => undefined);
+    if (!stat?.isDirectory()) {
+      throw new UsageError(`${target} is neither a directory nor a repository URL`);
+    }
+    console.error(`Zipping ${path.resolve(target)}...`);
+    const zip = await zipDirectory(target);
+    form.set("code_zip", new Blob([zip], { type: "application/zip" }), `${path.basename(path.resolve(target))}.zip`);
+  }
+
+  const { request_id } = await client.json<{ request_id: string }>("/api/analyze", { method: "POST", body: form });
+  return request_id;
+}
+
+async function waitForJob(client: ServerClient, id: string, timeoutMs: number): Promise<AnalysisJob> {
+  const deadline = Date.now() + timeoutMs;
+  let lastMessage = "";
+
+  for (;;) {
+    const job = await client.json<AnalysisJob>(`/api/status/${id}`);
+    if (isTerminalStatus(job.status)) return job;
+
+    const message = job.status === "queued" && job.queuePosition
+      ? `Queued at position ${job.queuePosition}`
+      : job.progress?.message ?? `Job is ${job.status}`;
+    if (message !== lastMessage) {
+      console.error(message);
+      lastMessage = message;
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for analysis ${id}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+async function download(client: ServerClient, id: string, format: DownloadFormat, outDir: string): Promise<void> {
+  let res: Response;
+  try {
+    res = await client.request(`/api/download/${id}/${format}`);
+  } catch (error) {
+    // e.g. no patch when the refactoring changed nothing; not worth failing a build over
+    console.error(`Skipping ${format}: ${(error as Error).message}`);
+    return;
+  }
+
+  const disposition = res.headers.get("content-disposition") ?? "";
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `analysis-${id}.${downloadExtensions[format]}`;
+  const destination = path.join(outDir, path.basename(filename));
+  await fs.writeFile(destination, Buffer.from(await res.arrayBuffer()));
+  console.error(`Saved ${destination}`);
+}
+
+export async function analyzeCommand(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      server: { type: "string" },
+      mode: { type: "string" },
+      download: { type: "string", multiple: true },
+      out: { type: "string" },
+      timeout: { type: "string" },
+      "no-cache": { type: "boolean" },
+      baseline: { type: "string" },
+      ref: { type: "string" },
+      subpath: { type: "string" },
+      "ssh-key": { type: "string" },
+      ...globOptions,
+      ...thresholdOptions,
+    },
+  });
+
+  if (positionals.length !== 1) {
+    throw new UsageError("Expected exactly one directory or repository URL");
+  }
+
+  const mode = parseMode(values.mode);
+  const formats = parseList(values.download, downloadFormats, "--download");
+  const thresholds = parseThresholds(values);
+  const timeoutMs = parseCount(values.timeout ?? "1800", "--timeout") * 1000;
+  const outDir = values.out ?? ".";
+  const client = new ServerClient(values.server ?? process.env.SCRIPTO_SERVER ?? "http://localhost:5000");
+
+  const id = await submit(client, positionals[0], {
+    mode,
+    bypassCache: values["no-cache"] ?? false,
+    baselineJobId: values.baseline,
+    include: values.include,
+    exclude: values.exclude,
+    ref: values.ref,
+    subpath: values.subpath,
+    token: process.env.SCRIPTO_REPO_TOKEN || undefined,
+    sshKeyFile: values["ssh-key"],
+  });
+  console.error(`Started analysis ${id}`);
+
+  const job = await waitForJob(client, id, timeoutMs);
+  if (job.status !== "completed" || !job.results) {
+    const reason = (job.results as AnalysisResult | undefined)?.error;
+    console.error(`Analysis ${id} ${job.status}${reason ? `: ${reason}` : ""}`);
+    return 2;
+  }
+
+  const result = job.results as AnalysisResult;
+  console.log(formatSummary(result, thresholds));
+
+  if (formats.length > 0) {
+    await fs.mkdir(outDir, { recursive: true });
+    for (const format of formats) {
+      await download(client, id, format, outDir);
+    }
+  }
+
+  const exceeded = exceededThresholds(result, thresholds);
+  if (exceeded.length > 0) {
+    console.error(`Thresholds exceeded: ${exceeded.join(", ")}`);
+    return 1;
+  }
+  return 0;
+}
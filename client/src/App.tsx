@@ -5,12 +5,18 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/components/theme-provider";
 import Home from "@/pages/home";
+import HistoryPage from "@/pages/history";
+import JobPage from "@/pages/job";
+import ComparePage from "@/pages/compare";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/history" component={HistoryPage} />
+      <Route path="/jobs/:id" component={JobPage} />
+      <Route path="/compare/:baseId/:headId" component={ComparePage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,394 @@
+import { useMemo, useState } from "react";
+import { Highlight, themes, type RenderProps } from "prism-react-renderer";
+import { AlertTriangle, Check, FileCode, Folder, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useTheme } from "@/components/theme-provider";
+import { cn } from "@/lib/utils";
+import {
+  buildFileDiff,
+  languageForFile,
+  toSplitRows,
+  type DiffLine,
+  type FileDiff,
+} from "@/lib/diff";
+import type { AnalysisResult, HunkDecision } from "@shared/schema";
+
+type RefactoredFile = NonNullable<AnalysisResult["refactoredFiles"]>[number];
+type DiffMode = "split" | "unified";
+
+interface DiffViewerProps {
+  files: RefactoredFile[];
+  // Accept/reject buttons are only shown when a handler is given
+  onHunkDecision?: (decision: HunkDecision) => void;
+  isSavingDecision?: boolean;
+}
+
+interface TreeNode {
+  name: string;
+  path: string;
+  children: Map<string, TreeNode>;
+  diff?: FileDiff;
+  reverted?: boolean;
+}
+
+function buildTree(diffs: FileDiff[], files: RefactoredFile[]): TreeNode {
+  const root: TreeNode = { name: "", path: "", children: new Map() };
+  diffs.forEach((diff, index) => {
+    let node = root;
+    for (const part of diff.file.split("/")) {
+      let child = node.children.get(part);
+      if (!child) {
+        child = { name: part, path: node.path ? `${node.path}/${part}` : part, children: new Map() };
+        node.children.set(part, child);
+      }
+      node = child;
+    }
+    node.diff = diff;
+    node.reverted = files[index].validation?.status === "reverted";
+  });
+  return root;
+}
+
+// Directories first, then files, each alphabetically
+function sortedChildren(node: TreeNode): TreeNode[] {
+  return Array.from(node.children.values()).sort((a, b) => {
+    if (!a.diff !== !b.diff) return a.diff ? 1 : -1;
+    return a.name.localeCompare(b.name);
+  });
+}
+
+function ChangeCounts({ diff }: { diff: FileDiff }) {
+  if (diff.additions === 0 && diff.deletions === 0) {
+    return <span className="text-muted-foreground">no changes</span>;
+  }
+  return (
+    <span className="font-mono">
+      <span className="text-chart-2">+{diff.additions}</span>{" "}
+      <span className="text-destructive">-{diff.deletions}</span>
+    </span>
+  );
+}
+
+function FileTree({
+  node,
+  depth,
+  selected,
+  onSelect,
+}: {
+  node: TreeNode;
+  depth: number;
+  selected: string;
+  onSelect: (file: string) => void;
+}) {
+  return (
+    <>
+      {sortedChildren(node).map((child) =>
+        child.diff ? (
+          <button
+            key={child.path}
+            type="button"
+            onClick={() => onSelect(child.path)}
+            className={cn(
+              "flex w-full items-center justify-between gap-2 rounded px-2 py-1 text-left text-xs hover:bg-muted/50",
+              selected === child.path && "bg-muted"
+            )}
+            style={{ paddingLeft: `${depth * 12 + 8}px` }}
+            data-testid={`diff-file-${child.path}`}
+          >
+            <span className="flex min-w-0 items-center gap-1.5">
+              <FileCode className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+              <span className="truncate font-mono">{child.name}</span>
+            </span>
+            <span className="shrink-0 text-[11px]">
+              {child.reverted ? (
+                <AlertTriangle className="h-3.5 w-3.5 text-chart-3" aria-label="Refactoring reverted" />
+              ) : (
+                <ChangeCounts diff={child.diff} />
+              )}
+            </span>
+          </button>
+        ) : (
+          <div key={child.path}>
+            <div
+              className="flex items-center gap-1.5 px-2 py-1 text-xs text-muted-foreground"
+              style={{ paddingLeft: `${depth * 12 + 8}px` }}
+            >
+              <Folder className="h-3.5 w-3.5 shrink-0" />
+              <span className="truncate font-mono">{child.name}</span>
+            </div>
+            <FileTree node={child} depth={depth + 1} selected={selected} onSelect={onSelect} />
+          </div>
+        )
+      )}
+    </>
+  );
+}
+
+const rowClasses: Record<DiffLine["kind"], string> = {
+  context: "",
+  add: "bg-chart-2/10",
+  remove: "bg-destructive/10",
+};
+
+const markers: Record<DiffLine["kind"], string> = {
+  context: " ",
+  add: "+",
+  remove: "-",
+};
+
+interface Highlighted {
+  before: RenderProps;
+  after: RenderProps;
+}
+
+function LineCode({ line, highlighted }: { line: DiffLine; highlighted: Highlighted }) {
+  const source = line.kind === "add" ? highlighted.after : highlighted.before;
+  const index = line.kind === "add" ? line.newIndex : line.oldIndex;
+  const tokens = index !== undefined ? source.tokens[index] : undefined;
+
+  return (
+    <>
+      <span className="select-none text-muted-foreground">{markers[line.kind]} </span>
+      {tokens
+        ? tokens.map((token, key) => <span key={key} {...source.getTokenProps({ token })} />)
+        : line.text}
+    </>
+  );
+}
+
+function LineNumber({ value }: { value?: number }) {
+  return (
+    <td className="w-10 select-none px-2 text-right align-top text-muted-foreground">
+      {value !== undefined ? value + 1 : ""}
+    </td>
+  );
+}
+
+interface HunkControls {
+  rejected: Set<number>;
+  onHunkDecision?: (decision: HunkDecision) => void;
+  isSavingDecision?: boolean;
+}
+
+function HunkHeader({
+  diff,
+  hunkIndex,
+  colSpan,
+  controls,
+}: {
+  diff: FileDiff;
+  hunkIndex: number;
+  colSpan: number;
+  controls: HunkControls;
+}) {
+  const { rejected, onHunkDecision, isSavingDecision } = controls;
+  const isRejected = rejected.has(hunkIndex);
+
+  return (
+    <tr>
+      <td colSpan={colSpan} className="bg-muted px-2 py-1 text-muted-foreground">
+        <div className="flex items-center justify-between gap-2">
+          <span>
+            {diff.hunks[hunkIndex].header}
+            {isRejected && <span className="ml-2 font-sans text-destructive">Rejected</span>}
+          </span>
+          {onHunkDecision && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 font-sans text-xs"
+              disabled={isSavingDecision}
+              onClick={() =>
+                onHunkDecision({
+                  file: diff.file,
+                  hunk: hunkIndex,
+                  decision: isRejected ? "accept" : "reject",
+                })
+              }
+              data-testid={`button-hunk-${isRejected ? "accept" : "reject"}-${hunkIndex}`}
+            >
+              {isRejected ? (
+                <>
+                  <Check className="h-3 w-3 mr-1" />
+                  Accept
+                </>
+              ) : (
+                <>
+                  <X className="h-3 w-3 mr-1" />
+                  Reject
+                </>
+              )}
+            </Button>
+          )}
+        </div>
+      </td>
+    </tr>
+  );
+}
+
+function UnifiedDiff({
+  diff,
+  highlighted,
+  controls,
+}: {
+  diff: FileDiff;
+  highlighted: Highlighted;
+  controls: HunkControls;
+}) {
+  return (
+    <table className="w-full border-collapse font-mono text-xs">
+      <tbody>
+        {diff.hunks.map((hunk, hunkIndex) => [
+          <HunkHeader key={`hunk-${hunkIndex}`} diff={diff} hunkIndex={hunkIndex} colSpan={3} controls={controls} />,
+          ...hunk.lines.map((line, lineIndex) => (
+            <tr
+              key={`${hunkIndex}-${lineIndex}`}
+              className={cn(rowClasses[line.kind], controls.rejected.has(hunkIndex) && "opacity-50")}
+            >
+              <LineNumber value={line.oldIndex} />
+              <LineNumber value={line.newIndex} />
+              <td className="whitespace-pre px-2">
+                <LineCode line={line} highlighted={highlighted} />
+              </td>
+            </tr>
+          )),
+        ])}
+      </tbody>
+    </table>
+  );
+}
+
+function SplitDiff({
+  diff,
+  highlighted,
+  controls,
+}: {
+  diff: FileDiff;
+  highlighted: Highlighted;
+  controls: HunkControls;
+}) {
+  return (
+    <table className="w-full table-fixed border-collapse font-mono text-xs">
+      <colgroup>
+        <col className="w-10" />
+        <col />
+        <col className="w-10" />
+        <col />
+      </colgroup>
+      <tbody>
+        {diff.hunks.map((hunk, hunkIndex) => [
+          <HunkHeader key={`hunk-${hunkIndex}`} diff={diff} hunkIndex={hunkIndex} colSpan={4} controls={controls} />,
+          ...toSplitRows(hunk).map(({ left, right }, rowIndex) => (
+            <tr key={`${hunkIndex}-${rowIndex}`} className={cn(controls.rejected.has(hunkIndex) && "opacity-50")}>
+              <LineNumber value={left?.oldIndex} />
+              <td className={cn("whitespace-pre-wrap break-all px-2", left && rowClasses[left.kind])}>
+                {left && <LineCode line={left} highlighted={highlighted} />}
+              </td>
+              <LineNumber value={right?.newIndex} />
+              <td
+                className={cn(
+                  "whitespace-pre-wrap break-all border-l px-2",
+                  right && rowClasses[right.kind]
+                )}
+              >
+                {right && <LineCode line={right} highlighted={highlighted} />}
+              </td>
+            </tr>
+          )),
+        ])}
+      </tbody>
+    </table>
+  );
+}
+
+export function DiffViewer({ files, onHunkDecision, isSavingDecision }: DiffViewerProps) {
+  const { theme } = useTheme();
+  const [mode, setMode] = useState<DiffMode>("split");
+  const diffs = useMemo(
+    () => files.map(({ file, original, refactored }) => buildFileDiff(file, original, refactored)),
+    [files]
+  );
+  const tree = useMemo(() => buildTree(diffs, files), [diffs, files]);
+  const [selected, setSelected] = useState(
+    () => (diffs.find((diff) => diff.hunks.length > 0) ?? diffs[0])?.file ?? ""
+  );
+
+  const selectedFile = files.find((file) => file.file === selected);
+  const selectedDiff = diffs.find((diff) => diff.file === selected);
+  const controls: HunkControls = {
+    rejected: new Set(selectedFile?.rejectedHunks ?? []),
+    onHunkDecision,
+    isSavingDecision,
+  };
+  const language = languageForFile(selected);
+  const prismTheme = theme === "dark" ? themes.vsDark : themes.github;
+
+  return (
+    <div className="grid grid-cols-1 gap-4 md:grid-cols-[240px_1fr]">
+      <ScrollArea className="h-[200px] rounded-lg border md:h-[520px]">
+        <div className="py-2">
+          <FileTree node={tree} depth={0} selected={selected} onSelect={setSelected} />
+        </div>
+      </ScrollArea>
+
+      <div className="min-w-0 rounded-lg border">
+        <div className="flex items-center justify-between gap-4 border-b px-3 py-2">
+          <div className="flex min-w-0 items-center gap-3 text-xs">
+            <span className="truncate font-mono font-medium">{selected}</span>
+            {selectedDiff && <ChangeCounts diff={selectedDiff} />}
+            {selectedDiff && controls.rejected.size > 0 && (
+              <span className="text-muted-foreground">
+                {selectedDiff.hunks.length - controls.rejected.size} of {selectedDiff.hunks.length} changes accepted
+              </span>
+            )}
+          </div>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={mode}
+            onValueChange={(value) => value && setMode(value as DiffMode)}
+          >
+            <ToggleGroupItem value="split" className="text-xs" data-testid="toggle-diff-split">
+              Split
+            </ToggleGroupItem>
+            <ToggleGroupItem value="unified" className="text-xs" data-testid="toggle-diff-unified">
+              Unified
+            </ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        <div className="h-[468px] overflow-auto">
+          {selectedFile && selectedDiff && selectedDiff.hunks.length > 0 ? (
+            <Highlight theme={prismTheme} language={language} code={selectedFile.original}>
+              {(before) => (
+                <Highlight theme={prismTheme} language={language} code={selectedFile.refactored}>
+                  {(after) =>
+                    mode === "split" ? (
+                      <SplitDiff diff={selectedDiff} highlighted={{ before, after }} controls={controls} />
+                    ) : (
+                      <UnifiedDiff diff={selectedDiff} highlighted={{ before, after }} controls={controls} />
+                    )
+                  }
+                </Highlight>
+              )}
+            </Highlight>
+          ) : selectedFile?.validation?.status === "reverted" ? (
+            <div className="flex flex-col items-center gap-2 px-4 py-12 text-center text-sm">
+              <AlertTriangle className="h-5 w-5 text-chart-3" />
+              <p>The refactored code did not parse, so the original file was kept.</p>
+              {selectedFile.validation.error && (
+                <p className="font-mono text-xs text-muted-foreground">{selectedFile.validation.error}</p>
+              )}
+            </div>
+          ) : (
+            <p className="py-12 text-center text-sm text-muted-foreground">
+              No changes in this file.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
+import { Link, useLocation } from "wouter";
 import { Code2, Activity } from "lucide-react";
 import { ThemeToggle } from "./theme-toggle";
 import { Badge } from "@/components/ui/badge";
@@ -6,11 +7,18 @@ interface HeaderProps {
   apiStatus?: "online" | "offline" | "checking";
 }
 
+const navItems = [
+  { href: "/", label: "Analyze" },
+  { href: "/history", label: "History" },
+];
+
 export function Header({ apiStatus = "checking" }: HeaderProps) {
+  const [location] = useLocation();
+
   return (
     <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
       <div className="container flex h-16 items-center justify-between px-4 mx-auto max-w-5xl">
-        <div className="flex items-center gap-3">
+        <Link href="/" className="flex items-center gap-3">
           <div className="flex h-9 w-9 items-center justify-center rounded-lg bg-primary">
             <Code2 className="h-5 w-5 text-primary-foreground" />
           </div>
@@ -20,8 +28,24 @@ export function Header({ apiStatus = "checking" }: HeaderProps) {
               Cloud-first code analysis demo
             </p>
           </div>
-        </div>
+        </Link>
         <div className="flex items-center gap-4">
+          <nav className="flex items-center gap-1">
+            {navItems.map((item) => (
+              <Link
+                key={item.href}
+                href={item.href}
+                className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                  location === item.href
+                    ? "bg-muted text-foreground"
+                    : "text-muted-foreground hover:text-foreground"
+                }`}
+                data-testid={`link-nav-${item.label.toLowerCase()}`}
+              >
+                {item.label}
+              </Link>
+            ))}
+          </nav>
           <div className="flex items-center gap-2">
             <Activity className={`h-3.5 w-3.5 ${
               apiStatus === "online" 
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { Link } from "wouter";
 import {
   FileCode,
   AlertTriangle,
@@ -21,20 +22,51 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
-import type { AnalysisResult } from "@shared/schema";
+import { DiffViewer } from "@/components/diff-viewer";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { AnalysisResult, HunkDecision, SkippedFile } from "@shared/schema";
 
 interface ResultsDisplayProps {
   results: AnalysisResult;
+  onHunkDecision?: (decision: HunkDecision) => void;
+  isSavingDecision?: boolean;
 }
 
-export function ResultsDisplay({ results }: ResultsDisplayProps) {
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+const skipReasonLabels: Record<SkippedFile["reason"], string> = {
+  gitignore: ".gitignore",
+  excluded: "excluded",
+  too_large: "too large",
+  generated: "generated",
+  minified: "minified",
+};
+
+export function ResultsDisplay({ results, onHunkDecision, isSavingDecision }: ResultsDisplayProps) {
+  const { toast } = useToast();
   const [issuesOpen, setIssuesOpen] = useState(true);
+  const [suppressedOpen, setSuppressedOpen] = useState(false);
+  const [skippedOpen, setSkippedOpen] = useState(false);
   const [jsonOpen, setJsonOpen] = useState(false);
   const [copied, setCopied] = useState(false);
 
   const summary = results.summary;
   const issues = results.issues || [];
+  const suppressed = results.suppressed || [];
+  const skipped = results.skipped || [];
   const refactoredFiles = results.refactoredFiles || [];
+  const hasChanges = refactoredFiles.some((file) => file.original !== file.refactored);
+  const revertedCount = refactoredFiles.filter((file) => file.validation?.status === "reverted").length;
 
   const getSeverityIcon = (severity: string) => {
     switch (severity) {
@@ -84,24 +116,42 @@ export function ResultsDisplay({ results }: ResultsDisplayProps) {
     const blob = new Blob([JSON.stringify(results, null, 2)], {
       type: "application/json",
     });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `analysis-${results.request_id}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, `analysis-${results.request_id}.json`);
+  };
+
+  const handleDownloadBaseline = async () => {
+    try {
+      const res = await apiRequest("POST", `/api/jobs/${results.request_id}/baseline`);
+      downloadBlob(await res.blob(), ".scripto-baseline.json");
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create the baseline",
+        variant: "destructive",
+      });
+    }
   };
 
   const handleDownloadMarkdown = () => {
     window.open(`/api/download/${results.request_id}/markdown`, '_blank');
   };
 
+  const handleDownloadHtml = () => {
+    window.open(`/api/download/${results.request_id}/html`, '_blank');
+  };
+
+  const handleDownloadSarif = () => {
+    window.open(`/api/download/${results.request_id}/sarif`, '_blank');
+  };
+
   const handleDownloadRefactored = () => {
     window.open(`/api/download/${results.request_id}/refactored`, '_blank');
   };
 
+  const handleDownloadPatch = () => {
+    window.open(`/api/download/${results.request_id}/patch`, '_blank');
+  };
+
   return (
     <div className="space-y-6">
       {summary && (
@@ -178,6 +228,14 @@ export function ResultsDisplay({ results }: ResultsDisplayProps) {
               <Download className="h-4 w-4 mr-2" />
               Download Markdown Report
             </Button>
+            <Button
+              variant="outline"
+              onClick={handleDownloadHtml}
+              data-testid="button-download-html"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download HTML Report
+            </Button>
             <Button
               variant="outline"
               onClick={handleDownloadJson}
@@ -186,10 +244,50 @@ export function ResultsDisplay({ results }: ResultsDisplayProps) {
               <Download className="h-4 w-4 mr-2" />
               Download JSON Report
             </Button>
+            <Button
+              variant="outline"
+              onClick={handleDownloadSarif}
+              data-testid="button-download-sarif"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download SARIF
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleDownloadBaseline}
+              data-testid="button-download-baseline"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download Baseline
+            </Button>
           </div>
         </CardContent>
       </Card>
 
+      {results.incremental && (
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground" data-testid="text-incremental">
+              Incremental analysis against{" "}
+              <Link href={`/jobs/${results.incremental.baseline_job_id}`} className="font-mono text-foreground underline">
+                {results.incremental.baseline_job_id}
+              </Link>
+              : {results.incremental.analyzed_files} changed{" "}
+              {results.incremental.analyzed_files === 1 ? "file was" : "files were"} analyzed and{" "}
+              {results.incremental.reused_files} unchanged{" "}
+              {results.incremental.reused_files === 1 ? "file was" : "files were"} carried over.{" "}
+              <Link
+                href={`/compare/${results.incremental.baseline_job_id}/${results.request_id}`}
+                className="text-foreground underline"
+                data-testid="link-compare-baseline"
+              >
+                Compare with the baseline
+              </Link>
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       {summary && summary.languages.length > 0 && (
         <Card>
           <CardHeader className="pb-4">
@@ -251,6 +349,118 @@ export function ResultsDisplay({ results }: ResultsDisplayProps) {
                               {issue.rule}
                             </Badge>
                           )}
+                          {issue.analyzer && (
+                            <span>via {issue.analyzer}</span>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </CardContent>
+            </CollapsibleContent>
+          </Card>
+        </Collapsible>
+      )}
+
+      {suppressed.length > 0 && (
+        <Collapsible open={suppressedOpen} onOpenChange={setSuppressedOpen}>
+          <Card>
+            <CollapsibleTrigger className="w-full">
+              <CardHeader className="flex flex-row items-center justify-between gap-4 pb-4">
+                <CardTitle className="text-lg flex items-center gap-2">
+                  Suppressed Issues
+                  <Badge variant="secondary" className="ml-2">
+                    {suppressed.length}
+                  </Badge>
+                </CardTitle>
+                {suppressedOpen ? (
+                  <ChevronDown className="h-5 w-5 text-muted-foreground" />
+                ) : (
+                  <ChevronRight className="h-5 w-5 text-muted-foreground" />
+                )}
+              </CardHeader>
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+              <CardContent>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Hidden by a <code className="font-mono">scripto-ignore</code> comment or the repository's
+                  baseline file. These are not included in the issue counts.
+                </p>
+                <ScrollArea className="h-[300px] pr-4">
+                  <div className="space-y-3">
+                    {suppressed.map((issue, index) => (
+                      <div
+                        key={index}
+                        className="p-4 border rounded-lg space-y-2 opacity-75"
+                        data-testid={`suppressed-item-${index}`}
+                      >
+                        <div className="flex items-start justify-between gap-4">
+                          <div className="flex items-center gap-2">
+                            {getSeverityIcon(issue.severity)}
+                            <span className="font-medium text-sm">
+                              {issue.message}
+                            </span>
+                          </div>
+                          {getSeverityBadge(issue.severity)}
+                        </div>
+                        <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                          <span className="font-mono">{issue.file}:{issue.line}</span>
+                          {issue.rule && (
+                            <Badge variant="outline" className="text-xs">
+                              {issue.rule}
+                            </Badge>
+                          )}
+                          <span>{issue.suppressed_by === "inline" ? "inline comment" : "baseline"}</span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </CardContent>
+            </CollapsibleContent>
+          </Card>
+        </Collapsible>
+      )}
+
+      {skipped.length > 0 && (
+        <Collapsible open={skippedOpen} onOpenChange={setSkippedOpen}>
+          <Card>
+            <CollapsibleTrigger className="w-full">
+              <CardHeader className="flex flex-row items-center justify-between gap-4 pb-4">
+                <CardTitle className="text-lg flex items-center gap-2">
+                  Skipped Files
+                  <Badge variant="secondary" className="ml-2">
+                    {skipped.length}
+                  </Badge>
+                </CardTitle>
+                {skippedOpen ? (
+                  <ChevronDown className="h-5 w-5 text-muted-foreground" />
+                ) : (
+                  <ChevronRight className="h-5 w-5 text-muted-foreground" />
+                )}
+              </CardHeader>
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+              <CardContent>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Left out of the analysis by <code className="font-mono">.gitignore</code>, include and exclude
+                  globs, the size limit, or because they look generated or minified.
+                </p>
+                <ScrollArea className="h-[300px] pr-4">
+                  <div className="space-y-2">
+                    {skipped.map((file, index) => (
+                      <div
+                        key={index}
+                        className="flex items-center justify-between gap-4 p-3 border rounded-lg text-sm"
+                        data-testid={`skipped-item-${index}`}
+                      >
+                        <span className="font-mono truncate">{file.file}</span>
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground shrink-0">
+                          {file.detail && <span>{file.detail}</span>}
+                          <Badge variant="outline" className="text-xs">
+                            {skipReasonLabels[file.reason]}
+                          </Badge>
                         </div>
                       </div>
                     ))}
@@ -280,19 +490,37 @@ export function ResultsDisplay({ results }: ResultsDisplayProps) {
                 <p className="text-sm text-muted-foreground">
                   AI-powered code improvements applied to all analyzed files
                 </p>
+                {revertedCount > 0 && (
+                  <p className="text-sm text-chart-3" data-testid="text-reverted-files">
+                    {revertedCount} {revertedCount === 1 ? 'file was' : 'files were'} kept unchanged because the refactored code did not parse
+                  </p>
+                )}
               </div>
             </div>
             
             {refactoredFiles.length > 0 ? (
-              <Button
-                onClick={handleDownloadRefactored}
-                className="w-full bg-chart-2 hover:bg-chart-2/90 text-white"
-                size="lg"
-                data-testid="button-download-refactored"
-              >
-                <Download className="h-5 w-5 mr-2" />
-                Download Refactored Code (.zip)
-              </Button>
+              <div className="space-y-2">
+                <Button
+                  onClick={handleDownloadRefactored}
+                  className="w-full bg-chart-2 hover:bg-chart-2/90 text-white"
+                  size="lg"
+                  data-testid="button-download-refactored"
+                >
+                  <Download className="h-5 w-5 mr-2" />
+                  Download Refactored Code (.zip)
+                </Button>
+                {hasChanges && (
+                  <Button
+                    onClick={handleDownloadPatch}
+                    variant="outline"
+                    className="w-full"
+                    data-testid="button-download-patch"
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    Download Patch (.patch)
+                  </Button>
+                )}
+              </div>
             ) : (
               <p className="text-sm text-muted-foreground text-center py-2">
                 No refactored files available for this analysis.
@@ -302,6 +530,27 @@ export function ResultsDisplay({ results }: ResultsDisplayProps) {
         </CardContent>
       </Card>
 
+      {hasChanges && (
+        <Card>
+          <CardHeader className="pb-4">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <FileCode className="h-5 w-5 text-chart-2" />
+              Review Changes
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Rejected changes are left out of the refactored code and patch downloads
+            </p>
+          </CardHeader>
+          <CardContent>
+            <DiffViewer
+              files={refactoredFiles}
+              onHunkDecision={onHunkDecision}
+              isSavingDecision={isSavingDecision}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       <Collapsible open={jsonOpen} onOpenChange={setJsonOpen}>
         <Card>
           <CollapsibleTrigger className="w-full">
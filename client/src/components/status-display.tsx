@@ -1,18 +1,95 @@
-import { CheckCircle2, Clock, AlertTriangle, Loader2, XCircle } from "lucide-react";
+import { CheckCircle2, Clock, AlertTriangle, Loader2, XCircle, Ban } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import type { AnalysisJob } from "@shared/schema";
+import { Progress } from "@/components/ui/progress";
+import type { AnalysisJob, AnalysisResult, JobProgress } from "@shared/schema";
 
 interface StatusDisplayProps {
   job: AnalysisJob;
+  progress?: JobProgress | null;
+  queuePosition?: number | null;
   onNewAnalysis: () => void;
+  onCancel?: () => void;
+  isCancelling?: boolean;
 }
 
-export function StatusDisplay({ job, onNewAnalysis }: StatusDisplayProps) {
+// Share of the overall progress bar covered by each stage
+const stageRanges: Record<JobProgress["stage"], [number, number]> = {
+  extracting: [0, 5],
+  discovering: [5, 10],
+  analyzing: [10, 55],
+  refactoring: [55, 100],
+};
+
+function getProgressPercent(progress: JobProgress): number {
+  const [start, end] = stageRanges[progress.stage];
+  if (!progress.total) return start;
+  const fraction = Math.min((progress.current ?? 0) / progress.total, 1);
+  return Math.round(start + (end - start) * fraction);
+}
+
+interface JobStatusBadgeProps {
+  status: AnalysisJob["status"];
+}
+
+export function JobStatusBadge({ status }: JobStatusBadgeProps) {
+  switch (status) {
+    case "pending":
+      return (
+        <Badge variant="secondary" className="bg-muted text-muted-foreground">
+          Pending
+        </Badge>
+      );
+    case "queued":
+      return (
+        <Badge variant="secondary" className="bg-muted text-muted-foreground">
+          Queued
+        </Badge>
+      );
+    case "processing":
+      return (
+        <Badge className="bg-primary/10 text-primary border-primary/20">
+          Processing
+        </Badge>
+      );
+    case "completed":
+      return (
+        <Badge className="bg-chart-2/10 text-chart-2 border-chart-2/20">
+          Completed
+        </Badge>
+      );
+    case "failed":
+      return (
+        <Badge variant="destructive">
+          Failed
+        </Badge>
+      );
+    case "cancelled":
+      return (
+        <Badge variant="secondary" className="bg-muted text-muted-foreground">
+          Cancelled
+        </Badge>
+      );
+    default:
+      return null;
+  }
+}
+
+export function StatusDisplay({
+  job,
+  progress,
+  queuePosition,
+  onNewAnalysis,
+  onCancel,
+  isCancelling = false,
+}: StatusDisplayProps) {
+  const isActive = job.status === "pending" || job.status === "queued" || job.status === "processing";
+
   const getStatusIcon = () => {
     switch (job.status) {
       case "pending":
+      case "queued":
         return <Clock className="h-5 w-5 text-muted-foreground" />;
       case "processing":
         return <Loader2 className="h-5 w-5 text-primary animate-spin" />;
@@ -20,37 +97,8 @@ export function StatusDisplay({ job, onNewAnalysis }: StatusDisplayProps) {
         return <CheckCircle2 className="h-5 w-5 text-chart-2" />;
       case "failed":
         return <XCircle className="h-5 w-5 text-destructive" />;
-      default:
-        return null;
-    }
-  };
-
-  const getStatusBadge = () => {
-    switch (job.status) {
-      case "pending":
-        return (
-          <Badge variant="secondary" className="bg-muted text-muted-foreground">
-            Pending
-          </Badge>
-        );
-      case "processing":
-        return (
-          <Badge className="bg-primary/10 text-primary border-primary/20">
-            Processing
-          </Badge>
-        );
-      case "completed":
-        return (
-          <Badge className="bg-chart-2/10 text-chart-2 border-chart-2/20">
-            Completed
-          </Badge>
-        );
-      case "failed":
-        return (
-          <Badge variant="destructive">
-            Failed
-          </Badge>
-        );
+      case "cancelled":
+        return <Ban className="h-5 w-5 text-muted-foreground" />;
       default:
         return null;
     }
@@ -80,7 +128,19 @@ export function StatusDisplay({ job, onNewAnalysis }: StatusDisplayProps) {
           </div>
         </div>
         <div className="flex items-center gap-3">
-          {getStatusBadge()}
+          <JobStatusBadge status={job.status} />
+          {isActive && onCancel && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onCancel}
+              disabled={isCancelling}
+              data-testid="button-cancel-analysis"
+            >
+              {isCancelling && <Loader2 className="h-4 w-4 animate-spin" />}
+              Cancel
+            </Button>
+          )}
           <Button
             variant="outline"
             size="sm"
@@ -102,7 +162,19 @@ export function StatusDisplay({ job, onNewAnalysis }: StatusDisplayProps) {
               <p className="text-muted-foreground">Repository</p>
               <p className="font-medium font-mono text-xs truncate">
                 {job.repoUrl}
+                {job.ref && ` @ ${job.ref}`}
               </p>
+              {job.commitSha && (
+                <p className="font-mono text-xs text-muted-foreground" data-testid="text-commit-sha">
+                  {job.commitSha.slice(0, 12)}
+                </p>
+              )}
+            </div>
+          )}
+          {job.subpath && (
+            <div className="space-y-1">
+              <p className="text-muted-foreground">Directory</p>
+              <p className="font-medium font-mono text-xs truncate">{job.subpath}</p>
             </div>
           )}
           <div className="space-y-1">
@@ -117,19 +189,32 @@ export function StatusDisplay({ job, onNewAnalysis }: StatusDisplayProps) {
           )}
         </div>
 
-        {(job.status === "pending" || job.status === "processing") && (
-          <div className="mt-6 flex items-center gap-3 p-4 bg-muted/50 rounded-lg">
-            <Loader2 className="h-5 w-5 text-primary animate-spin" />
-            <div>
-              <p className="font-medium text-sm">
-                {job.status === "pending"
-                  ? "Waiting to start..."
-                  : "Analyzing your code..."}
-              </p>
-              <p className="text-xs text-muted-foreground">
-                This may take a few moments
-              </p>
+        {isActive && (
+          <div className="mt-6 space-y-3 p-4 bg-muted/50 rounded-lg">
+            <div className="flex items-center gap-3">
+              <Loader2 className="h-5 w-5 text-primary animate-spin shrink-0" />
+              <div className="min-w-0">
+                <p className="font-medium text-sm">
+                  {job.status === "pending"
+                    ? "Waiting to start..."
+                    : job.status === "queued"
+                    ? queuePosition
+                      ? `Waiting in queue (position ${queuePosition})`
+                      : "Waiting in queue..."
+                    : progress?.message ?? "Analyzing your code..."}
+                </p>
+                <p className="text-xs text-muted-foreground font-mono truncate">
+                  {progress?.file ?? "This may take a few moments"}
+                </p>
+              </div>
             </div>
+            {progress && (
+              <Progress
+                value={getProgressPercent(progress)}
+                className="h-2"
+                data-testid="progress-analysis"
+              />
+            )}
           </div>
         )}
 
@@ -140,8 +225,23 @@ export function StatusDisplay({ job, onNewAnalysis }: StatusDisplayProps) {
               <p className="font-medium text-sm text-destructive">
                 Analysis Failed
               </p>
+              <p className="text-xs text-muted-foreground" data-testid="text-failure-reason">
+                {(job.results as AnalysisResult | undefined)?.error ??
+                  "There was an error processing your code. Please try again."}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {job.status === "cancelled" && (
+          <div className="mt-6 flex items-start gap-3 p-4 bg-muted/50 rounded-lg">
+            <Ban className="h-5 w-5 text-muted-foreground mt-0.5" />
+            <div>
+              <p className="font-medium text-sm">
+                Analysis Cancelled
+              </p>
               <p className="text-xs text-muted-foreground">
-                There was an error processing your code. Please try again.
+                This analysis was stopped before it finished.
               </p>
             </div>
           </div>
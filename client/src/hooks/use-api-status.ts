@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query";
+
+export type ApiStatus = "online" | "offline" | "checking";
+
+export function useApiStatus(): ApiStatus {
+  const { data: apiHealth } = useQuery<{ status: string }>({
+    queryKey: ["/api/health"],
+    refetchInterval: 30000,
+    retry: false,
+  });
+
+  return apiHealth?.status === "ok" ? "online" : apiHealth === undefined ? "checking" : "offline";
+}
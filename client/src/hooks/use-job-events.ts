@@ -0,0 +1,61 @@
+import { useEffect, useState } from "react";
+import { isTerminalStatus, type AnalysisJob, type JobProgress } from "@shared/schema";
+
+interface JobEventsState {
+  progress: JobProgress | null;
+  queuePosition: number | null;
+  connected: boolean;
+}
+
+const initialState: JobEventsState = { progress: null, queuePosition: null, connected: false };
+
+// Streams progress and status changes for a running job from
+// /api/jobs/:id/events. `onStatus` is called whenever the server reports
+// a status change so callers can refetch the full job.
+export function useJobEvents(
+  jobId: string | null,
+  enabled: boolean,
+  onStatus: (status: AnalysisJob["status"]) => void
+): JobEventsState {
+  const [state, setState] = useState<JobEventsState>(initialState);
+
+  useEffect(() => {
+    if (!jobId || !enabled) return;
+
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+
+    source.onopen = () => {
+      setState((prev) => ({ ...prev, connected: true }));
+    };
+
+    source.addEventListener("progress", (event) => {
+      const progress = JSON.parse((event as MessageEvent).data) as JobProgress;
+      setState({ progress, queuePosition: null, connected: true });
+    });
+
+    source.addEventListener("queue", (event) => {
+      const { position } = JSON.parse((event as MessageEvent).data) as { position: number };
+      setState((prev) => ({ ...prev, queuePosition: position, connected: true }));
+    });
+
+    source.addEventListener("status", (event) => {
+      const { status } = JSON.parse((event as MessageEvent).data) as { status: AnalysisJob["status"] };
+      if (isTerminalStatus(status)) {
+        source.close();
+        setState(initialState);
+      }
+      onStatus(status);
+    });
+
+    source.onerror = () => {
+      setState((prev) => ({ ...prev, connected: false }));
+    };
+
+    return () => {
+      source.close();
+      setState(initialState);
+    };
+  }, [jobId, enabled, onStatus]);
+
+  return state;
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { fileHunks } from "@shared/diff";
+import { buildFileDiff, languageForFile, toSplitRows } from "./diff";
+
+describe("buildFileDiff", () => {
+  it("numbers lines and counts changes per file", () => {
+    const diff = buildFileDiff("a.js", "var a = 1;\nfoo();\n", "let a = 1;\nfoo();\nbar();\n");
+
+    expect(diff).toMatchObject({ file: "a.js", additions: 2, deletions: 1 });
+    expect(diff.hunks).toHaveLength(1);
+    expect(diff.hunks[0].header).toBe("@@ -1,2 +1,3 @@");
+    expect(diff.hunks[0].lines).toEqual([
+      { kind: "remove", text: "var a = 1;", oldIndex: 0 },
+      { kind: "add", text: "let a = 1;", newIndex: 0 },
+      { kind: "context", text: "foo();", oldIndex: 1, newIndex: 1 },
+      { kind: "add", text: "bar();", newIndex: 2 },
+    ]);
+  });
+
+  it("splits the file into the hunks the server indexes decisions by", () => {
+    const original = Array.from({ length: 40 }, (_, index) => `line ${index}`).join("\n");
+    const refactored = original.replace("line 2", "changed 2").replace("line 30", "changed 30");
+
+    expect(buildFileDiff("a.js", original, refactored).hunks).toHaveLength(
+      fileHunks("a.js", original, refactored).hunks.length
+    );
+  });
+});
+
+describe("toSplitRows", () => {
+  it("pairs removed lines with the added lines that replace them", () => {
+    const [hunk] = buildFileDiff("a.js", "a\nb\nc\n", "A\nB\nB2\nc\n").hunks;
+    const rows = toSplitRows(hunk).map(({ left, right }) => [left?.text, right?.text]);
+
+    expect(rows).toEqual([
+      ["a", "A"],
+      ["b", "B"],
+      [undefined, "B2"],
+      ["c", "c"],
+    ]);
+  });
+});
+
+describe("languageForFile", () => {
+  it("maps extensions to Prism grammars", () => {
+    expect(languageForFile("src/app.MTS")).toBe("typescript");
+    expect(languageForFile("Makefile")).toBe("plain");
+  });
+});
@@ -0,0 +1,121 @@
+import { fileHunks, hunkHeader } from "@shared/diff";
+
+export interface DiffLine {
+  kind: "context" | "add" | "remove";
+  text: string;
+  // 0-based line index in the original / refactored file, for token lookup
+  oldIndex?: number;
+  newIndex?: number;
+}
+
+export interface DiffHunk {
+  header: string;
+  lines: DiffLine[];
+}
+
+export interface FileDiff {
+  file: string;
+  hunks: DiffHunk[];
+  additions: number;
+  deletions: number;
+}
+
+// One row of the side-by-side view; either side is empty when a line was
+// only added or only removed
+export interface SplitRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+// Hunks are indexed like the server's, see @shared/diff
+export function buildFileDiff(file: string, original: string, refactored: string): FileDiff {
+  const { hunks } = fileHunks(file, original, refactored);
+  let additions = 0;
+  let deletions = 0;
+
+  const diffHunks = hunks.map((hunk) => {
+    let oldIndex = hunk.oldStart - 1;
+    let newIndex = hunk.newStart - 1;
+    const lines: DiffLine[] = [];
+
+    for (const line of hunk.lines) {
+      const marker = line[0];
+      const text = line.slice(1);
+      if (marker === "+") {
+        additions++;
+        lines.push({ kind: "add", text, newIndex: newIndex++ });
+      } else if (marker === "-") {
+        deletions++;
+        lines.push({ kind: "remove", text, oldIndex: oldIndex++ });
+      } else if (marker === " ") {
+        lines.push({ kind: "context", text, oldIndex: oldIndex++, newIndex: newIndex++ });
+      }
+      // "\ No newline at end of file" markers are not shown
+    }
+
+    return { header: hunkHeader(hunk), lines };
+  });
+
+  return { file, hunks: diffHunks, additions, deletions };
+}
+
+// Pair each run of removed lines with the added lines that follow it
+export function toSplitRows(hunk: DiffHunk): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i], right: added[i] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of hunk.lines) {
+    if (line.kind === "remove") {
+      if (added.length > 0) flush();
+      removed.push(line);
+    } else if (line.kind === "add") {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+
+  return rows;
+}
+
+const languagesByExtension: Record<string, string> = {
+  py: "python",
+  js: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  jsx: "jsx",
+  ts: "typescript",
+  mts: "typescript",
+  cts: "typescript",
+  tsx: "tsx",
+  json: "json",
+  css: "css",
+  go: "go",
+  rs: "rust",
+  c: "c",
+  h: "c",
+  cpp: "cpp",
+  kt: "kotlin",
+  swift: "swift",
+  sql: "sql",
+  yml: "yaml",
+  yaml: "yaml",
+  md: "markdown",
+};
+
+// Prism language for a file path, "plain" when there is no grammar for it
+export function languageForFile(file: string): string {
+  const extension = file.split(".").pop()?.toLowerCase() ?? "";
+  return languagesByExtension[extension] ?? "plain";
+}
@@ -0,0 +1,187 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { ArrowRight, GitCompare, Loader2, TrendingDown, TrendingUp, Minus } from "lucide-react";
+import { Header } from "@/components/header";
+import { Footer } from "@/components/footer";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useApiStatus } from "@/hooks/use-api-status";
+import type { AnalysisIssue, IssueSeverity, RunComparison } from "@shared/schema";
+
+const severities: IssueSeverity[] = ["critical", "major", "minor"];
+
+const severityBadgeClasses: Record<IssueSeverity, string> = {
+  critical: "bg-destructive/10 text-destructive border-destructive/20",
+  major: "bg-chart-3/10 text-chart-3 border-chart-3/20",
+  minor: "bg-chart-1/10 text-chart-1 border-chart-1/20",
+};
+
+function IssueRow({ issue, movedFrom }: { issue: AnalysisIssue; movedFrom?: number }) {
+  return (
+    <div className="p-4 border rounded-lg space-y-2">
+      <div className="flex items-start justify-between gap-4">
+        <span className="font-medium text-sm">{issue.message}</span>
+        <Badge className={`text-xs capitalize ${severityBadgeClasses[issue.severity]}`}>{issue.severity}</Badge>
+      </div>
+      <div className="flex items-center gap-4 text-xs text-muted-foreground">
+        <span className="font-mono">
+          {issue.file}:{movedFrom !== undefined && movedFrom !== issue.line ? `${movedFrom} → ${issue.line}` : issue.line}
+        </span>
+        {issue.rule && (
+          <Badge variant="outline" className="text-xs">
+            {issue.rule}
+          </Badge>
+        )}
+        {issue.analyzer && <span>via {issue.analyzer}</span>}
+      </div>
+    </div>
+  );
+}
+
+function IssueList({ children, empty }: { children: React.ReactNode[]; empty: string }) {
+  if (children.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-12">{empty}</p>;
+  }
+  return (
+    <ScrollArea className="h-[480px] pr-4">
+      <div className="space-y-3">{children}</div>
+    </ScrollArea>
+  );
+}
+
+function DeltaCard({ severity, comparison }: { severity: IssueSeverity; comparison: RunComparison }) {
+  const { base, head, delta } = comparison.severity_deltas[severity];
+  // Fewer issues is an improvement
+  const Icon = delta < 0 ? TrendingDown : delta > 0 ? TrendingUp : Minus;
+  const color = delta < 0 ? "text-chart-2" : delta > 0 ? "text-destructive" : "text-muted-foreground";
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <p className="text-sm text-muted-foreground capitalize">{severity} issues</p>
+        <div className="flex items-baseline gap-3 mt-1">
+          <p className="text-3xl font-bold">{head}</p>
+          <span className={`flex items-center gap-1 text-sm font-medium ${color}`} data-testid={`delta-${severity}`}>
+            <Icon className="h-4 w-4" />
+            {delta > 0 ? `+${delta}` : delta}
+          </span>
+        </div>
+        <p className="text-xs text-muted-foreground mt-1">was {base}</p>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ComparePage() {
+  const { baseId, headId } = useParams<{ baseId: string; headId: string }>();
+  const apiStatus = useApiStatus();
+
+  const { data: comparison, isLoading, error } = useQuery<RunComparison>({
+    queryKey: ["/api/compare", baseId, headId],
+  });
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <Header apiStatus={apiStatus} />
+
+      <main className="flex-1 container mx-auto max-w-5xl px-4 py-8 space-y-6">
+        <Card>
+          <CardHeader className="pb-4">
+            <div className="flex items-center gap-3">
+              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10">
+                <GitCompare className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <CardTitle className="text-xl">Compare Analyses</CardTitle>
+                <CardDescription className="text-muted-foreground flex items-center gap-2">
+                  <Link href={`/jobs/${baseId}`} className="font-mono underline">
+                    {baseId}
+                  </Link>
+                  <ArrowRight className="h-3 w-3" />
+                  <Link href={`/jobs/${headId}`} className="font-mono underline">
+                    {headId}
+                  </Link>
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+        </Card>
+
+        {isLoading && (
+          <div className="flex items-center justify-center gap-2 py-12 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Comparing analyses...
+          </div>
+        )}
+
+        {error && (
+          <div className="flex flex-col items-center text-center py-12 gap-4">
+            <p className="text-sm text-destructive">
+              These analyses could not be compared. Both must exist and have completed.
+            </p>
+            <Button asChild variant="outline">
+              <Link href="/history">Back to History</Link>
+            </Button>
+          </div>
+        )}
+
+        {comparison && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {severities.map((severity) => (
+                <DeltaCard key={severity} severity={severity} comparison={comparison} />
+              ))}
+            </div>
+
+            <Card>
+              <CardContent className="pt-6">
+                <Tabs defaultValue="new">
+                  <TabsList className="mb-4">
+                    <TabsTrigger value="new" data-testid="tab-new">
+                      New
+                      <Badge variant="secondary" className="ml-2">{comparison.new.length}</Badge>
+                    </TabsTrigger>
+                    <TabsTrigger value="fixed" data-testid="tab-fixed">
+                      Fixed
+                      <Badge variant="secondary" className="ml-2">{comparison.fixed.length}</Badge>
+                    </TabsTrigger>
+                    <TabsTrigger value="unchanged" data-testid="tab-unchanged">
+                      Unchanged
+                      <Badge variant="secondary" className="ml-2">{comparison.unchanged.length}</Badge>
+                    </TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="new">
+                    <IssueList empty="No new issues.">
+                      {comparison.new.map((issue, index) => (
+                        <IssueRow key={index} issue={issue} />
+                      ))}
+                    </IssueList>
+                  </TabsContent>
+                  <TabsContent value="fixed">
+                    <IssueList empty="No issues were fixed.">
+                      {comparison.fixed.map((issue, index) => (
+                        <IssueRow key={index} issue={issue} />
+                      ))}
+                    </IssueList>
+                  </TabsContent>
+                  <TabsContent value="unchanged">
+                    <IssueList empty="No issues persist between the analyses.">
+                      {comparison.unchanged.map((match, index) => (
+                        <IssueRow key={index} issue={match.head} movedFrom={match.base.line} />
+                      ))}
+                    </IssueList>
+                  </TabsContent>
+                </Tabs>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
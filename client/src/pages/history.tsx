@@ -0,0 +1,262 @@
+import { useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { History as HistoryIcon, Loader2, Search, FileArchive, GitBranch, GitCompare } from "lucide-react";
+import { Header } from "@/components/header";
+import { Footer } from "@/components/footer";
+import { JobStatusBadge } from "@/components/status-display";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useApiStatus } from "@/hooks/use-api-status";
+import type { AnalysisJob, JobListResponse, JobSummary } from "@shared/schema";
+
+type StatusFilter = AnalysisJob["status"] | "all";
+
+async function fetchJobs(
+  status: StatusFilter,
+  repoUrl: string,
+  cursor: string | null
+): Promise<JobListResponse> {
+  const params = new URLSearchParams();
+  if (status !== "all") params.set("status", status);
+  if (repoUrl) params.set("repo_url", repoUrl);
+  if (cursor) params.set("cursor", cursor);
+
+  const res = await fetch(`/api/jobs?${params.toString()}`, { credentials: "include" });
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+  return res.json();
+}
+
+interface JobRowProps {
+  job: JobSummary;
+  selected: boolean;
+  onSelectedChange: (selected: boolean) => void;
+}
+
+function JobRow({ job, selected, onSelectedChange }: JobRowProps) {
+  const counts = job.summary?.issues_count;
+
+  return (
+    <div className="flex items-center gap-3">
+      {/* Only completed analyses have issues to compare */}
+      <Checkbox
+        checked={selected}
+        onCheckedChange={(checked) => onSelectedChange(checked === true)}
+        disabled={job.status !== "completed"}
+        aria-label={`Select ${job.id} for comparison`}
+        data-testid={`checkbox-compare-${job.id}`}
+      />
+      <Link
+        href={`/jobs/${job.id}`}
+        className="flex-1 min-w-0 block p-4 border rounded-lg hover:bg-muted/50 transition-colors"
+        data-testid={`job-row-${job.id}`}
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0 space-y-1">
+            <div className="flex items-center gap-2">
+              {job.repoUrl ? (
+                <GitBranch className="h-4 w-4 text-muted-foreground shrink-0" />
+              ) : (
+                <FileArchive className="h-4 w-4 text-muted-foreground shrink-0" />
+              )}
+              <span className="font-medium text-sm font-mono truncate">
+                {job.repoUrl || "ZIP upload"}
+              </span>
+            </div>
+            <div className="flex items-center gap-3 text-xs text-muted-foreground">
+              <span className="font-mono">{job.id}</span>
+              <span className="capitalize">{job.analysisMode}</span>
+              <span>{new Date(job.createdAt).toLocaleString()}</span>
+            </div>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            {counts && (
+              <div className="hidden sm:flex items-center gap-1">
+                <Badge variant="destructive" className="text-xs">{counts.critical}</Badge>
+                <Badge className="bg-chart-3/10 text-chart-3 border-chart-3/20 text-xs">{counts.major}</Badge>
+                <Badge className="bg-chart-1/10 text-chart-1 border-chart-1/20 text-xs">{counts.minor}</Badge>
+              </div>
+            )}
+            <JobStatusBadge status={job.status} />
+          </div>
+        </div>
+      </Link>
+    </div>
+  );
+}
+
+export default function HistoryPage() {
+  const apiStatus = useApiStatus();
+  const [status, setStatus] = useState<StatusFilter>("all");
+  const [repoSearch, setRepoSearch] = useState("");
+  const [repoUrl, setRepoUrl] = useState("");
+  const [selected, setSelected] = useState<JobSummary[]>([]);
+  const [, setLocation] = useLocation();
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/jobs", status, repoUrl],
+    queryFn: ({ pageParam }) => fetchJobs(status, repoUrl, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.next_cursor,
+    staleTime: 0,
+  });
+
+  const jobs = data?.pages.flatMap((page) => page.jobs) ?? [];
+
+  const handleSelectedChange = (job: JobSummary, isSelected: boolean) => {
+    setSelected((current) => {
+      const others = current.filter((other) => other.id !== job.id);
+      // Keep the two most recent picks
+      return isSelected ? [...others, job].slice(-2) : others;
+    });
+  };
+
+  const handleCompare = () => {
+    const [base, head] = [...selected].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    setLocation(`/compare/${base.id}/${head.id}`);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setRepoUrl(repoSearch.trim());
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <Header apiStatus={apiStatus} />
+
+      <main className="flex-1 container mx-auto max-w-5xl px-4 py-8">
+        <Card>
+          <CardHeader className="pb-4">
+            <div className="flex items-center gap-3">
+              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10">
+                <HistoryIcon className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <CardTitle className="text-xl">Analysis History</CardTitle>
+                <CardDescription className="text-muted-foreground">
+                  Reopen the results of any previous analysis
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex flex-col sm:flex-row gap-3">
+              <form onSubmit={handleSearch} className="flex flex-1 gap-2">
+                <Input
+                  placeholder="Filter by repository URL"
+                  value={repoSearch}
+                  onChange={(e) => setRepoSearch(e.target.value)}
+                  data-testid="input-history-search"
+                />
+                <Button type="submit" variant="outline" data-testid="button-history-search">
+                  <Search className="h-4 w-4" />
+                </Button>
+              </form>
+              <Select value={status} onValueChange={(v) => setStatus(v as StatusFilter)}>
+                <SelectTrigger className="sm:w-44" data-testid="select-history-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="queued">Queued</SelectItem>
+                  <SelectItem value="processing">Processing</SelectItem>
+                  <SelectItem value="completed">Completed</SelectItem>
+                  <SelectItem value="failed">Failed</SelectItem>
+                  <SelectItem value="cancelled">Cancelled</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {isLoading && (
+              <div className="flex items-center justify-center gap-2 py-12 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading analyses...
+              </div>
+            )}
+
+            {error && (
+              <p className="text-sm text-destructive text-center py-12">
+                Failed to load analysis history.
+              </p>
+            )}
+
+            {!isLoading && !error && jobs.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-12">
+                No analyses found.
+              </p>
+            )}
+
+            {jobs.length > 0 && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-4 text-sm text-muted-foreground">
+                  <span>Select two completed analyses to compare them</span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleCompare}
+                    disabled={selected.length !== 2}
+                    data-testid="button-history-compare"
+                  >
+                    <GitCompare className="h-4 w-4" />
+                    Compare
+                  </Button>
+                </div>
+                {jobs.map((job) => (
+                  <JobRow
+                    key={job.id}
+                    job={job}
+                    selected={selected.some((other) => other.id === job.id)}
+                    onSelectedChange={(isSelected) => handleSelectedChange(job, isSelected)}
+                  />
+                ))}
+              </div>
+            )}
+
+            {hasNextPage && (
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+                data-testid="button-history-load-more"
+              >
+                {isFetchingNextPage ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Loading...
+                  </>
+                ) : (
+                  "Load more"
+                )}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
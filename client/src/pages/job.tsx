@@ -0,0 +1,158 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Link, useLocation, useParams } from "wouter";
+import { FileSearch } from "lucide-react";
+import { Header } from "@/components/header";
+import { Footer } from "@/components/footer";
+import { StatusDisplay } from "@/components/status-display";
+import { ResultsDisplay } from "@/components/results-display";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useApiStatus } from "@/hooks/use-api-status";
+import { useJobEvents } from "@/hooks/use-job-events";
+import {
+  isTerminalStatus,
+  type AnalysisJob,
+  type AnalysisResult,
+  type HunkDecision,
+} from "@shared/schema";
+
+export default function JobPage() {
+  const { id } = useParams<{ id: string }>();
+  const [, setLocation] = useLocation();
+  const pollingRef = useRef<NodeJS.Timeout | null>(null);
+  const previousJobRef = useRef<Pick<AnalysisJob, "id" | "status"> | null>(null);
+  const { toast } = useToast();
+  const apiStatus = useApiStatus();
+
+  const { data: job, error, refetch: refetchJob } = useQuery<AnalysisJob>({
+    queryKey: ["/api/status", id],
+  });
+
+  const isRunning = !!job && !isTerminalStatus(job.status);
+  const handleStatusEvent = useCallback(() => {
+    refetchJob();
+  }, [refetchJob]);
+  const { progress, queuePosition, connected } = useJobEvents(id, isRunning, handleStatusEvent);
+
+  useEffect(() => {
+    const previousJob = previousJobRef.current;
+    previousJobRef.current = job ? { id: job.id, status: job.status } : null;
+
+    // Fall back to polling while the event stream is unavailable
+    if (isRunning && !connected) {
+      pollingRef.current = setInterval(() => {
+        refetchJob();
+      }, 2000);
+
+      return () => {
+        if (pollingRef.current) {
+          clearInterval(pollingRef.current);
+        }
+      };
+    }
+
+    if (pollingRef.current) {
+      clearInterval(pollingRef.current);
+    }
+
+    // Only notify about failures that happened while this page was open,
+    // not when reopening an old failed job from the history
+    if (job?.status === "failed" && previousJob?.id === job.id && previousJob.status !== "failed") {
+      toast({
+        title: "Analysis Failed",
+        description:
+          (job.results as AnalysisResult | undefined)?.error ??
+          "There was an error processing your code. Please try again.",
+        variant: "destructive",
+      });
+    }
+  }, [job, isRunning, connected, refetchJob, toast]);
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/jobs/${id}/cancel`);
+    },
+    onSuccess: () => {
+      refetchJob();
+      toast({
+        title: "Analysis Cancelled",
+        description: "The analysis was stopped.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to cancel analysis",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hunkDecisionMutation = useMutation({
+    mutationFn: async (decision: HunkDecision) => {
+      const res = await apiRequest("POST", `/api/jobs/${id}/hunks`, decision);
+      return (await res.json()) as AnalysisJob;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/status", id], updated);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save your decision",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleNewAnalysis = () => {
+    setLocation("/");
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <Header apiStatus={apiStatus} />
+
+      <main className="flex-1 container mx-auto max-w-5xl px-4 py-8">
+        {error && (
+          <div className="flex flex-col items-center justify-center text-center py-16 px-4">
+            <div className="flex h-16 w-16 items-center justify-center rounded-full bg-muted mb-6">
+              <FileSearch className="h-8 w-8 text-muted-foreground" />
+            </div>
+            <h2 className="text-xl font-semibold mb-2">Analysis Not Found</h2>
+            <p className="text-muted-foreground max-w-md mb-6">
+              No analysis with ID <span className="font-mono">{id}</span> exists on this server.
+            </p>
+            <Button asChild variant="outline" data-testid="button-back-to-history">
+              <Link href="/history">Back to History</Link>
+            </Button>
+          </div>
+        )}
+
+        {job && (
+          <div className="space-y-6">
+            <StatusDisplay
+              job={job}
+              progress={progress ?? job.progress}
+              queuePosition={queuePosition ?? job.queuePosition}
+              onNewAnalysis={handleNewAnalysis}
+              onCancel={() => cancelMutation.mutate()}
+              isCancelling={cancelMutation.isPending}
+            />
+            {job.status === "completed" && job.results && (
+              <ResultsDisplay
+                results={job.results as AnalysisResult}
+                onHunkDecision={(decision) => hunkDecisionMutation.mutate(decision)}
+                isSavingDecision={hunkDecisionMutation.isPending}
+              />
+            )}
+          </div>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
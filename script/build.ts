@@ -59,6 +59,43 @@ async function buildAll() {
     external: externals,
     logLevel: "info",
   });
+
+  console.log("building tsc worker...");
+  // Loaded by the tsc analyzer from next to index.cjs and lib.cjs
+  await esbuild({
+    entryPoints: ["server/analyzers/tsc-worker.ts"],
+    platform: "node",
+    bundle: true,
+    format: "cjs",
+    outfile: "dist/tsc-worker.cjs",
+    minify: true,
+    external: externals,
+    logLevel: "info",
+  });
+
+  console.log("building library...");
+  await esbuild({
+    entryPoints: ["server/lib.ts"],
+    platform: "node",
+    bundle: true,
+    format: "cjs",
+    outfile: "dist/lib.cjs",
+    external: externals,
+    logLevel: "info",
+  });
+
+  console.log("building cli...");
+  await esbuild({
+    entryPoints: ["cli/index.ts"],
+    platform: "node",
+    bundle: true,
+    format: "cjs",
+    outfile: "dist/scripto.cjs",
+    banner: { js: "#!/usr/bin/env node" },
+    minify: true,
+    external: externals,
+    logLevel: "info",
+  });
 }
 
 buildAll().catch((err) => {
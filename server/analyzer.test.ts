@@ -0,0 +1,247 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MemoryLLMCache, type LLMCache, type LLMRequest } from "./llm";
+
+const llm = vi.hoisted(() => ({
+  // Answer to every analysis prompt
+  issues: "[]",
+  // Files sent for analysis, in order
+  analyzedFiles: [] as string[],
+  // Answers to refactoring prompts, one per call
+  refactorings: [] as string[],
+  refactorCalls: 0,
+  cache: null as LLMCache | null,
+}));
+
+vi.mock("./llm", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./llm")>();
+  const provider = new actual.FakeProvider(({ prompt, json }: LLMRequest) => {
+    if (json) {
+      llm.analyzedFiles.push(/^File: (.+)$/m.exec(prompt)![1]);
+      return llm.issues;
+    }
+    llm.refactorCalls++;
+    return llm.refactorings.shift() ?? "";
+  });
+  return { ...actual, getLLMProvider: () => provider, getLLMCache: () => llm.cache };
+});
+
+const { analyzeDirectory } = await import("./analyzer");
+const { DbStorage } = await import("./storage");
+const { emptyTestDb } = await import("./test-db");
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "analyzer-test-"));
+  await fs.writeFile(path.join(dir, ".scripto.yml"), "analyzers: [javascript]\n");
+  await fs.writeFile(path.join(dir, "a.js"), "var a = 1;\n");
+  llm.issues = "[]";
+  llm.analyzedFiles = [];
+  llm.refactorings = [];
+  llm.refactorCalls = 0;
+  llm.cache = new MemoryLLMCache();
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("refactoring cache", () => {
+  it("does not cache output that fails validation, so the next run asks again", async () => {
+    llm.refactorings = ["function (", "function ("];
+    const first = await analyzeDirectory("req-1", dir, "standard");
+    expect(first.refactoredFiles[0].validation.status).toBe("reverted");
+    expect(llm.refactorCalls).toBe(2);
+
+    llm.refactorings = ["let a = 1;"];
+    const second = await analyzeDirectory("req-2", dir, "standard");
+    expect(llm.refactorCalls).toBe(3);
+    expect(second.refactoredFiles[0]).toMatchObject({ refactored: "let a = 1;", validation: { status: "valid" } });
+  });
+
+  it("caches output that only passed on the retry under the first attempt's key", async () => {
+    llm.refactorings = ["function (", "let a = 1;"];
+    const first = await analyzeDirectory("req-1", dir, "standard");
+    expect(first.refactoredFiles[0].validation.status).toBe("valid");
+    expect(llm.refactorCalls).toBe(2);
+    llm.analyzedFiles = [];
+
+    const second = await analyzeDirectory("req-2", dir, "standard");
+
+    expect(llm.refactorCalls).toBe(2);
+    expect(llm.analyzedFiles).toEqual([]);
+    expect(second.refactoredFiles[0]).toMatchObject({ refactored: "let a = 1;", validation: { status: "valid" } });
+  });
+
+  it("caches an answer that leaves the file unchanged", async () => {
+    await fs.writeFile(path.join(dir, "a.js"), "let a = 1;");
+    llm.refactorings = ["let a = 1;"];
+    const first = await analyzeDirectory("req-1", dir, "standard");
+    expect(first.refactoredFiles[0].validation.status).toBe("skipped");
+
+    await analyzeDirectory("req-2", dir, "standard");
+
+    expect(llm.refactorCalls).toBe(1);
+  });
+
+  it("caches valid output and reuses it", async () => {
+    llm.refactorings = ["let a = 1;"];
+    await analyzeDirectory("req-1", dir, "standard");
+    const second = await analyzeDirectory("req-2", dir, "standard");
+
+    expect(llm.refactorCalls).toBe(1);
+    expect(second.refactoredFiles[0].refactored).toBe("let a = 1;");
+  });
+});
+
+describe("subdirectory analysis", () => {
+  const sub = () => path.join(dir, "services", "api");
+
+  beforeEach(async () => {
+    await fs.writeFile(
+      path.join(dir, ".scripto.yml"),
+      [
+        "analyzers: [javascript]",
+        "exclude: [services/api/vendor/**]",
+        "refactor:",
+        "  exclude: [services/api/legacy.js]",
+      ].join("\n")
+    );
+    await fs.writeFile(path.join(dir, ".gitignore"), "services/api/build/\n");
+    await fs.mkdir(path.join(sub(), "vendor"), { recursive: true });
+    await fs.mkdir(path.join(sub(), "build"), { recursive: true });
+    await fs.writeFile(path.join(sub(), "a.js"), "var a = 1;\n");
+    await fs.writeFile(path.join(sub(), "legacy.js"), "var b = 1;\n");
+    await fs.writeFile(path.join(sub(), "vendor", "lib.js"), "var c = 1;\n");
+    await fs.writeFile(path.join(sub(), "build", "out.js"), "var d = 1;\n");
+  });
+
+  it("reads the config and .gitignore from the root and reports paths relative to the directory", async () => {
+    llm.refactorings = ["let a = 1;"];
+    const result = await analyzeDirectory("req-1", sub(), "standard", { rootDir: dir });
+
+    expect(result.config?.exclude).toEqual(["services/api/vendor/**"]);
+    expect(result.refactoredFiles.map(({ file, validation }) => [file, validation.status])).toEqual([
+      ["a.js", "valid"],
+      ["legacy.js", "skipped"],
+    ]);
+    expect(llm.refactorCalls).toBe(1);
+    expect(result.skipped).toEqual(
+      expect.arrayContaining([
+        { file: `build${path.sep}`, reason: "gitignore" },
+        { file: path.join("vendor", "lib.js"), reason: "excluded", detail: "matches services/api/vendor/**" },
+      ])
+    );
+  });
+
+  it("matches root-relative baseline entries against the directory's files", async () => {
+    llm.issues = JSON.stringify([{ severity: "major", line: 1, message: "Unexpected var", rule: "javascript/no-var" }]);
+    const entry = { line: 1, rule: "javascript/no-var", message: "Unexpected var" };
+    await fs.writeFile(
+      path.join(dir, ".scripto-baseline.json"),
+      JSON.stringify({ version: 1, issues: [{ ...entry, file: "a.js" }, { ...entry, file: "services/api/legacy.js" }] })
+    );
+
+    const result = await analyzeDirectory("req-1", sub(), "standard", { rootDir: dir });
+
+    expect(result.issues.map((issue) => issue.file)).toEqual(["a.js"]);
+    expect(result.suppressed).toMatchObject([{ file: "legacy.js", suppressed_by: "baseline" }]);
+  });
+});
+
+describe("incremental analysis", () => {
+  beforeEach(() => {
+    // Cached answers would hide which files were analyzed again
+    llm.cache = null;
+  });
+
+  // The analysis answer for every file, with one issue
+  const issue = (message: string) =>
+    JSON.stringify([{ severity: "major", line: 1, message, rule: "javascript/no-var" }]);
+
+  async function analyzeBaseline() {
+    await fs.writeFile(path.join(dir, "b.js"), "var b = 1;\n");
+    llm.issues = issue("baseline finding");
+    llm.refactorings = ["let a = 1;", "let b = 1;"];
+    const baseline = await analyzeDirectory("req-1", dir, "standard");
+    llm.analyzedFiles = [];
+    llm.refactorCalls = 0;
+    llm.issues = issue("fresh finding");
+    return baseline;
+  }
+
+  it("re-analyzes changed and new files and carries over the rest", async () => {
+    const baseline = await analyzeBaseline();
+    await fs.writeFile(path.join(dir, "b.js"), "var b = 2;\n");
+    await fs.writeFile(path.join(dir, "c.js"), "var c = 1;\n");
+
+    const result = await analyzeDirectory("req-2", dir, "standard", { baseline });
+
+    expect(llm.analyzedFiles).toEqual(["b.js", "c.js"]);
+    expect(llm.refactorCalls).toBe(2);
+    expect(result.incremental).toEqual({ baseline_job_id: "req-1", analyzed_files: 2, reused_files: 1 });
+    expect(result.issues.map(({ file, message }) => `${file}: ${message}`).sort()).toEqual([
+      "a.js: baseline finding",
+      "b.js: fresh finding",
+      "c.js: fresh finding",
+    ]);
+    expect(result.refactoredFiles.map(({ file, refactored }) => [file, refactored])).toEqual([
+      ["a.js", "let a = 1;"],
+      ["b.js", "var b = 2;\n"],
+      ["c.js", "var c = 1;\n"],
+    ]);
+  });
+
+  it("keeps the hunks rejected in the baseline for unchanged files", async () => {
+    const baseline = await analyzeBaseline();
+    baseline.refactoredFiles[0] = { ...baseline.refactoredFiles[0], rejectedHunks: [0] };
+
+    const result = await analyzeDirectory("req-2", dir, "standard", { baseline });
+
+    expect(result.refactoredFiles.map((file) => file.rejectedHunks)).toEqual([[0], undefined]);
+  });
+
+  it("analyzes everything again when the config changed", async () => {
+    const baseline = await analyzeBaseline();
+    await fs.writeFile(path.join(dir, ".scripto.yml"), "analyzers: [javascript]\ndisabled_rules: [no-eval]\n");
+
+    const result = await analyzeDirectory("req-2", dir, "standard", { baseline });
+
+    expect(llm.analyzedFiles).toEqual(["a.js", "b.js"]);
+    expect(result.incremental).toMatchObject({ analyzed_files: 2, reused_files: 0 });
+    expect(result.issues.every((issue) => issue.message === "fresh finding")).toBe(true);
+  });
+
+  it("analyzes everything without a baseline", async () => {
+    await analyzeBaseline();
+
+    const result = await analyzeDirectory("req-2", dir, "standard");
+
+    expect(llm.analyzedFiles).toEqual(["a.js", "b.js"]);
+    expect(result.incremental).toBeUndefined();
+  });
+
+  it("reuses unchanged files when the baseline's config went through jsonb", async () => {
+    const config = [
+      "analyzers: [javascript]",
+      "exclude: [vendor/**]",
+      "refactor:",
+      "  include: [a.js]",
+      "  enabled: true",
+    ];
+    await fs.writeFile(path.join(dir, ".scripto.yml"), config.join("\n"));
+    const storage = new DbStorage(await emptyTestDb());
+    const job = await storage.createJob({ analysisMode: "standard" });
+    await storage.updateJobStatus(job.id, "completed", await analyzeDirectory(job.id, dir, "standard"));
+    const baseline = (await storage.getJob(job.id))!.results!;
+    llm.analyzedFiles = [];
+
+    const result = await analyzeDirectory("req-2", dir, "standard", { baseline });
+
+    expect(result.incremental).toMatchObject({ analyzed_files: 0, reused_files: 1 });
+    expect(llm.analyzedFiles).toEqual([]);
+  });
+});
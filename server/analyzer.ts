@@ -1,37 +1,77 @@
-import { exec } from "child_process";
-import { promisify } from "util";
+import { execFile } from "child_process";
+import { isDeepStrictEqual, promisify } from "util";
 import * as fs from "fs/promises";
 import * as path from "path";
 import * as os from "os";
-import { GoogleGenAI } from "@google/genai";
 import AdmZip from "adm-zip";
-
-const execAsync = promisify(exec);
-
-// Explicitly use GEMINI_API_KEY only
-const apiKey = process.env.GEMINI_API_KEY || "";
-const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
-
-if (!apiKey) {
-  console.warn("GEMINI_API_KEY not set - will use fallback analysis tools only");
-}
-
-interface Issue {
-  severity: "critical" | "major" | "minor";
-  file: string;
-  line: number;
-  message: string;
-  rule: string;
-  suggestion?: string;
-}
+import type {
+  AnalysisResult as StoredAnalysisResult,
+  FilePatch,
+  IncrementalInfo,
+  JobProgress,
+  RefactorValidation,
+  RepoConfig,
+  SkippedFile,
+  SourceInfo,
+  SuppressedIssue,
+} from "@shared/schema";
+import { createPatches } from "./diff";
+import { checkSyntax } from "./validate";
+import { applySuppressions, readBaselineFile, scopeBaseline } from "./suppression";
+import { applyRuleConfig, CONFIG_FILE, readRepoConfig, selectAnalyzers, shouldRefactor } from "./config";
+import { discoverFiles } from "./discovery";
+import { authFailureMessage, gitAuth, resolveCredentials, type GitCredentials } from "./git-auth";
+import { getLLMCache, getLLMProvider, WriteOnlyLLMCache } from "./llm";
+import { writeCache } from "./llm/cache";
+import { refactorFileWithLLM } from "./llm/review";
+import {
+  analyzerRegistry,
+  type Analyzer,
+  type AnalyzerContext,
+  type FileProgressCallback,
+  type Issue,
+} from "./analyzers";
+
+const execFileAsync = promisify(execFile);
 
 interface RefactoredFile {
   file: string;
   original: string;
   refactored: string;
+  validation: RefactorValidation;
+  // Hunks rejected in the baseline job, kept for unchanged files
+  rejectedHunks?: number[];
 }
 
-interface AnalysisResult {
+export interface AnalyzeOptions {
+  onProgress?: (progress: JobProgress) => void;
+  signal?: AbortSignal;
+  // Ignore cached LLM answers; fresh answers still replace the cached ones
+  bypassCache?: boolean;
+  // Completed result of an earlier analysis of the same code. Files whose
+  // content is unchanged keep its issues and refactoring instead of being
+  // analyzed again.
+  baseline?: StoredAnalysisResult;
+  // Globs limiting which files are analyzed, on top of the repository config
+  include?: string[];
+  exclude?: string[];
+  // Repository root when the analyzed directory is below it. The config and
+  // baseline files are read from there and their paths are relative to it.
+  rootDir?: string;
+}
+
+export interface CodeSource {
+  zipBuffer?: Buffer;
+  repoUrl?: string;
+  // Branch, tag or full commit SHA of repoUrl; the default branch when unset
+  ref?: string;
+  // Directory to analyze, relative to the root of the ZIP or repository
+  subpath?: string;
+  // For private repositories; falls back to the server's credentials for the host
+  credentials?: GitCredentials;
+}
+
+export interface AnalysisResult {
   request_id: string;
   status: string;
   summary: {
@@ -42,14 +82,25 @@ interface AnalysisResult {
       major: number;
       minor: number;
     };
+    suppressed_count: number;
   };
   issues: Issue[];
-  patches: Array<{
-    file: string;
-    original: string;
-    corrected: string;
-  }>;
+  suppressed: Array<Issue & Pick<SuppressedIssue, "suppressed_by">>;
+  patches: FilePatch[];
   refactoredFiles: RefactoredFile[];
+  skipped: SkippedFile[];
+  source?: SourceInfo;
+  incremental?: IncrementalInfo;
+  config?: RepoConfig;
+}
+
+// The submitted code could not be fetched or used as requested. Unlike
+// internal failures, the message is shown to the user.
+export class SourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SourceError";
+  }
 }
 
 async function extractZip(zipBuffer: Buffer, destDir: string): Promise<void> {
@@ -58,424 +109,173 @@ async function extractZip(zipBuffer: Buffer, destDir: string): Promise<void> {
     zip.extractAllTo(destDir, true);
   } catch (error) {
     console.error("Error extracting zip:", error);
-    throw new Error("Failed to extract ZIP file");
+    throw new SourceError("Failed to extract ZIP file");
   }
 }
 
-async function cloneRepo(repoUrl: string, destDir: string): Promise<void> {
-  try {
-    await execAsync(`git clone --depth 1 "${repoUrl}" "${destDir}"`, { 
+// Fetch a single commit of `ref`, or of the default branch, into destDir and
+// return its SHA. Unlike `git clone --branch`, fetching accepts full commit
+// SHAs as well as branches and tags.
+async function cloneRepo(
+  repoUrl: string,
+  destDir: string,
+  ref: string | undefined,
+  credentials: GitCredentials | null,
+  signal?: AbortSignal
+): Promise<string> {
+  const auth = await gitAuth(repoUrl, credentials);
+  const git = (args: string[]) =>
+    execFileAsync("git", args, {
+      cwd: destDir,
       timeout: 60000,
-      maxBuffer: 10 * 1024 * 1024 
+      maxBuffer: 10 * 1024 * 1024,
+      signal,
+      env: auth.env,
     });
+
+  try {
+    await git(["init", "--quiet"]);
+    await git(["fetch", "--depth", "1", "--quiet", "--", repoUrl, ref ?? "HEAD"]);
+    await git(["checkout", "--quiet", "--detach", "FETCH_HEAD"]);
+    const { stdout } = await git(["rev-parse", "HEAD"]);
+    return stdout.trim();
   } catch (error) {
+    signal?.throwIfAborted();
     console.error("Error cloning repo:", error);
-    throw new Error("Failed to clone repository");
-  }
-}
-
-async function findFiles(dir: string, extensions: string[]): Promise<string[]> {
-  const files: string[] = [];
-  
-  async function walk(currentDir: string) {
-    try {
-      const entries = await fs.readdir(currentDir, { withFileTypes: true });
-      
-      for (const entry of entries) {
-        const fullPath = path.join(currentDir, entry.name);
-        
-        if (entry.name.startsWith(".") || entry.name === "node_modules" || entry.name === "__pycache__" || entry.name === "venv" || entry.name === ".git") {
-          continue;
-        }
-        
-        if (entry.isDirectory()) {
-          await walk(fullPath);
-        } else if (entry.isFile()) {
-          const ext = path.extname(entry.name).toLowerCase();
-          if (extensions.includes(ext)) {
-            files.push(fullPath);
-          }
-        }
-      }
-    } catch (error) {
-      console.error(`Error walking directory ${currentDir}:`, error);
+    const stderr = (error as { stderr?: string }).stderr ?? "";
+    const authFailure = authFailureMessage(stderr, repoUrl, credentials);
+    if (authFailure) {
+      throw new SourceError(authFailure);
     }
-  }
-  
-  await walk(dir);
-  return files;
-}
-
-// Retry helper with exponential backoff
-async function retryWithBackoff<T>(
-  fn: () => Promise<T>,
-  maxRetries: number = 3,
-  baseDelay: number = 1000
-): Promise<T> {
-  let lastError: any;
-  for (let i = 0; i < maxRetries; i++) {
-    try {
-      return await fn();
-    } catch (error: any) {
-      lastError = error;
-      if (error.status === 429 && i < maxRetries - 1) {
-        const delay = baseDelay * Math.pow(2, i);
-        console.log(`Rate limited, retrying in ${delay}ms...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-      } else {
-        throw error;
-      }
-    }
-  }
-  throw lastError;
-}
-
-// Fallback: Analyze Python files with pylint
-async function analyzePythonWithPylint(files: string[], baseDir: string): Promise<Issue[]> {
-  const issues: Issue[] = [];
-  
-  for (const file of files) {
-    const relativePath = path.relative(baseDir, file);
-    try {
-      const { stdout, stderr } = await execAsync(
-        `pylint --output-format=json --disable=C0114,C0115,C0116 "${file}" 2>/dev/null || true`,
-        { timeout: 30000, maxBuffer: 5 * 1024 * 1024 }
-      );
-      
-      if (stdout.trim()) {
-        try {
-          const pylintIssues = JSON.parse(stdout);
-          for (const issue of pylintIssues) {
-            let severity: "critical" | "major" | "minor" = "minor";
-            if (issue.type === "error" || issue.type === "fatal") {
-              severity = "critical";
-            } else if (issue.type === "warning") {
-              severity = "major";
-            }
-            
-            issues.push({
-              severity,
-              file: relativePath,
-              line: issue.line || 1,
-              message: issue.message || "Unknown issue",
-              rule: `python/pylint-${issue.symbol || issue["message-id"] || "unknown"}`,
-              suggestion: `Fix the ${issue.type} issue`
-            });
-          }
-        } catch (parseError) {
-          console.error(`Error parsing pylint output for ${file}:`, parseError);
-        }
-      }
-    } catch (error) {
-      console.error(`Error running pylint on ${file}:`, error);
-    }
-  }
-  
-  return issues;
-}
-
-// Fallback: Analyze Python files with pyflakes
-async function analyzePythonWithPyflakes(files: string[], baseDir: string): Promise<Issue[]> {
-  const issues: Issue[] = [];
-  
-  for (const file of files) {
-    const relativePath = path.relative(baseDir, file);
-    try {
-      const { stdout, stderr } = await execAsync(
-        `pyflakes "${file}" 2>&1 || true`,
-        { timeout: 30000, maxBuffer: 5 * 1024 * 1024 }
-      );
-      
-      const output = stdout + stderr;
-      const lines = output.split('\n').filter(l => l.trim());
-      
-      for (const line of lines) {
-        const match = line.match(/:(\d+):?\s*(.+)/);
-        if (match) {
-          const lineNum = parseInt(match[1], 10) || 1;
-          const message = match[2].trim();
-          
-          let severity: "critical" | "major" | "minor" = "minor";
-          if (message.includes("undefined") || message.includes("syntax")) {
-            severity = "critical";
-          } else if (message.includes("imported but unused") || message.includes("redefinition")) {
-            severity = "major";
-          }
-          
-          issues.push({
-            severity,
-            file: relativePath,
-            line: lineNum,
-            message,
-            rule: "python/pyflakes",
-            suggestion: "Review and fix the issue"
-          });
-        }
-      }
-    } catch (error) {
-      console.error(`Error running pyflakes on ${file}:`, error);
+    if (ref && /couldn't find remote ref|not our ref|unadvertised object/i.test(stderr)) {
+      throw new SourceError(`Ref "${ref}" not found in the repository`);
     }
+    throw new SourceError("Failed to clone repository");
+  } finally {
+    await auth.cleanup();
   }
-  
-  return issues;
 }
 
-async function analyzeFileWithGemini(
-  fileContent: string,
-  relativePath: string,
-  language: string
-): Promise<Issue[]> {
-  if (!ai) {
-    console.log(`Gemini not available, skipping AI analysis for ${relativePath}`);
-    return [];
+// The requested directory inside the extracted or cloned code. Symlinks are
+// resolved so a subpath cannot point outside of it.
+async function resolveSubpath(rootDir: string, subpath: string): Promise<string> {
+  const root = await fs.realpath(rootDir);
+  const dir = await fs.realpath(path.resolve(root, subpath)).catch(() => undefined);
+  const inside = dir !== undefined && (dir === root || dir.startsWith(root + path.sep));
+  if (!inside || !(await fs.stat(dir).then((stat) => stat.isDirectory()))) {
+    throw new SourceError(`Directory "${subpath}" not found in the submitted code`);
   }
-
-  const systemPrompt = `You are an expert code analyzer. Analyze the given ${language} code and identify issues.
-
-For each issue found, provide a JSON array with objects containing:
-- severity: "critical" (bugs, security issues, syntax errors), "major" (logic errors, bad practices), or "minor" (style, formatting)
-- line: the line number where the issue occurs (integer)
-- message: brief description of the issue
-- rule: a rule identifier like "${language}/issue-type"
-- suggestion: how to fix the issue
-
-Only include real, actionable issues. Be thorough but avoid false positives.
-Return ONLY a valid JSON array, no markdown or explanations.
-If no issues are found, return an empty array: []`;
-
-  const userPrompt = `Analyze this ${language} file for issues:
-
-File: ${relativePath}
-
-\`\`\`${language}
-${fileContent}
-\`\`\`
-
-Return a JSON array of issues found.`;
-
-  try {
-    console.log(`Analyzing file with Gemini: ${relativePath}`);
-    
-    const response = await retryWithBackoff(async () => {
-      return await ai.models.generateContent({
-        model: "gemini-2.0-flash",
-        contents: [
-          {
-            role: "user",
-            parts: [{ text: systemPrompt + "\n\n" + userPrompt }]
-          }
-        ],
-        config: {
-          responseMimeType: "application/json",
-        },
-      });
-    }, 3, 2000);
-
-    console.log(`Gemini raw response for ${relativePath}:`, JSON.stringify(response).substring(0, 300));
-    
-    let responseText = "";
-    if (response.text) {
-      responseText = response.text;
-    } else if (response.candidates && response.candidates[0]?.content?.parts?.[0]?.text) {
-      responseText = response.candidates[0].content.parts[0].text;
-    } else {
-      console.error(`No text found in Gemini response for ${relativePath}`);
-      return [];
-    }
-    
-    console.log(`Gemini analysis response for ${relativePath}:`, responseText.substring(0, 500));
-    const cleanedResponse = responseText.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-    
-    try {
-      const parsedIssues = JSON.parse(cleanedResponse);
-      
-      if (Array.isArray(parsedIssues)) {
-        console.log(`Found ${parsedIssues.length} issues in ${relativePath}`);
-        return parsedIssues.map((issue: any) => ({
-          severity: issue.severity === "critical" || issue.severity === "major" || issue.severity === "minor" 
-            ? issue.severity 
-            : "minor",
-          file: relativePath,
-          line: typeof issue.line === 'number' ? issue.line : 1,
-          message: issue.message || "Unknown issue",
-          rule: issue.rule || `${language}/gemini-detected`,
-          suggestion: issue.suggestion || ""
-        }));
-      } else {
-        console.error(`Gemini response is not an array for ${relativePath}:`, typeof parsedIssues);
-      }
-    } catch (parseError) {
-      console.error(`Error parsing Gemini response for ${relativePath}:`, parseError);
-      console.error(`Raw response was:`, cleanedResponse.substring(0, 500));
-    }
-  } catch (error: any) {
-    console.error(`Error analyzing file ${relativePath} with Gemini:`, error.message || error);
-  }
-  
-  return [];
+  return dir;
 }
 
-async function analyzeFilesWithGemini(
+// Baseline entries for the files whose content matches the baseline exactly,
+// keyed by relative path. The refactoring is the same, so the hunks the user
+// rejected still apply.
+async function unchangedFiles(
   files: string[],
   baseDir: string,
-  language: string
-): Promise<Issue[]> {
-  const allIssues: Issue[] = [];
-  
+  baseline: StoredAnalysisResult
+): Promise<Map<string, RefactoredFile>> {
+  const baselineFiles = new Map((baseline.refactoredFiles || []).map((file) => [file.file, file]));
+  const unchanged = new Map<string, RefactoredFile>();
+
   for (const file of files) {
     const relativePath = path.relative(baseDir, file);
-    
-    try {
-      const content = await fs.readFile(file, 'utf-8');
-      const issues = await analyzeFileWithGemini(content, relativePath, language);
-      allIssues.push(...issues);
-    } catch (error) {
-      console.error(`Error reading file ${file}:`, error);
-    }
-  }
-  
-  return allIssues;
-}
+    const previous = baselineFiles.get(relativePath);
+    if (!previous) continue;
 
-// Analyze Python files - try Gemini first, fallback to pylint/pyflakes
-async function analyzePythonFiles(files: string[], baseDir: string): Promise<Issue[]> {
-  let issues: Issue[] = [];
-  let geminiWorked = false;
-  
-  // Try Gemini first
-  if (ai) {
     try {
-      issues = await analyzeFilesWithGemini(files, baseDir, "python");
-      if (issues.length > 0) {
-        geminiWorked = true;
-        console.log(`Gemini found ${issues.length} Python issues`);
+      const content = await fs.readFile(file, "utf-8");
+      if (content === previous.original) {
+        unchanged.set(relativePath, {
+          file: relativePath,
+          original: previous.original,
+          refactored: previous.refactored,
+          validation: previous.validation ?? { status: "skipped" },
+          rejectedHunks: previous.rejectedHunks,
+        });
       }
     } catch (error) {
-      console.log("Gemini analysis failed, falling back to local tools");
-    }
-  }
-  
-  // If Gemini didn't work or found no issues, use pylint + pyflakes
-  if (!geminiWorked) {
-    console.log("Using pylint and pyflakes for Python analysis");
-    const pylintIssues = await analyzePythonWithPylint(files, baseDir);
-    const pyflakesIssues = await analyzePythonWithPyflakes(files, baseDir);
-    
-    // Combine and deduplicate
-    const seenKeys = new Set<string>();
-    for (const issue of [...pylintIssues, ...pyflakesIssues]) {
-      const key = `${issue.file}:${issue.line}:${issue.message}`;
-      if (!seenKeys.has(key)) {
-        seenKeys.add(key);
-        issues.push(issue);
-      }
+      console.error(`Error reading file ${file}:`, error);
     }
-    console.log(`Local tools found ${issues.length} Python issues`);
   }
-  
-  return issues;
-}
-
-async function analyzeJavaScriptFiles(files: string[], baseDir: string): Promise<Issue[]> {
-  return analyzeFilesWithGemini(files, baseDir, "javascript");
-}
 
-async function analyzeTypeScriptFiles(files: string[], baseDir: string): Promise<Issue[]> {
-  return analyzeFilesWithGemini(files, baseDir, "typescript");
+  return unchanged;
 }
 
-async function refactorFileWithGemini(
-  filePath: string, 
-  fileContent: string, 
-  issues: Issue[], 
-  relativePath: string
-): Promise<string> {
-  if (!ai) {
-    console.log(`Gemini not available, skipping refactoring for ${relativePath}`);
-    return fileContent;
-  }
-
-  const fileIssues = issues.filter(i => i.file === relativePath);
-  
-  const issuesSummary = fileIssues.length > 0 
-    ? fileIssues.map(i => `- Line ${i.line}: ${i.message} (${i.severity})`).join('\n')
-    : 'No specific issues detected';
-
-  const systemPrompt = `You are an expert code refactoring assistant. Your task is to improve the given code by:
-1. Fixing all detected issues and bugs
-2. Improving code readability and structure
-3. Following best practices for the programming language
-4. Removing unused imports and variables
-5. Adding appropriate comments where helpful
-6. Maintaining the original functionality
-
-IMPORTANT: Return ONLY the refactored code, with no explanations, markdown formatting, or code blocks. The output should be valid code that can be directly saved to a file.`;
-
-  const userPrompt = `Here is a code file that needs refactoring:
-
-File: ${relativePath}
-
-Detected Issues:
-${issuesSummary}
+// Attempts per file before falling back to the original content
+const MAX_REFACTOR_ATTEMPTS = 2;
 
-Original Code:
-${fileContent}
-
-Please provide the refactored version of this code.`;
-
-  try {
-    console.log(`Refactoring file with Gemini: ${relativePath}`);
-    
-    const response = await retryWithBackoff(async () => {
-      return await ai.models.generateContent({
-        model: "gemini-2.0-flash",
-        contents: [
-          {
-            role: "user",
-            parts: [{ text: systemPrompt + "\n\n" + userPrompt }]
-          }
-        ],
-      });
-    }, 3, 2000);
+// Refactor one file and only keep the result if it still parses. Invalid
+// output is retried with the parser error, then replaced by the original.
+async function refactorFile(
+  file: string,
+  content: string,
+  issues: Issue[],
+  relativePath: string,
+  ctx: Pick<AnalyzerContext, "llm" | "cache" | "signal">
+): Promise<Pick<RefactoredFile, "refactored" | "validation">> {
+  let previousError: string | undefined;
+
+  for (let attempt = 1; attempt <= MAX_REFACTOR_ATTEMPTS; attempt++) {
+    const { code: refactored, cacheKey } = await refactorFileWithLLM(
+      ctx.llm,
+      file,
+      content,
+      issues,
+      relativePath,
+      ctx.signal,
+      previousError,
+      ctx.cache
+    );
+    if (refactored === content) {
+      // An answer that changes nothing is still worth not asking for again
+      if (cacheKey) await writeCache(ctx.cache, cacheKey, refactored);
+      return { refactored, validation: { status: "skipped" } };
+    }
 
-    let refactoredCode = "";
-    if (response.text) {
-      refactoredCode = response.text;
-    } else if (response.candidates && response.candidates[0]?.content?.parts?.[0]?.text) {
-      refactoredCode = response.candidates[0].content.parts[0].text;
-    } else {
-      console.error(`No text found in Gemini refactor response for ${relativePath}`);
-      return fileContent;
+    const check = await checkSyntax(relativePath, refactored, ctx.signal);
+    if (!check || check.valid) {
+      // Only output that is kept goes into the cache
+      if (cacheKey) await writeCache(ctx.cache, cacheKey, refactored);
+      return { refactored, validation: { status: check ? "valid" : "skipped" } };
     }
-    
-    refactoredCode = refactoredCode.replace(/^```[\w]*\n?/g, '').replace(/\n?```$/g, '').trim();
-    console.log(`Gemini refactored ${relativePath}, output length: ${refactoredCode.length}`);
-    return refactoredCode;
-  } catch (error: any) {
-    console.error(`Error refactoring file ${relativePath}:`, error.message || error);
-    return fileContent;
+
+    previousError = check.error;
+    console.log(`Refactored ${relativePath} failed syntax validation (attempt ${attempt}): ${check.error}`);
   }
+
+  return { refactored: content, validation: { status: "reverted", error: previousError } };
 }
 
 async function refactorFiles(
   files: string[], 
   baseDir: string, 
-  issues: Issue[]
+  issues: Issue[],
+  ctx: Pick<AnalyzerContext, "llm" | "cache" | "signal" | "onFile">,
+  refactorable: (relativePath: string) => boolean = () => true
 ): Promise<RefactoredFile[]> {
   const refactoredFiles: RefactoredFile[] = [];
   
   for (const file of files) {
+    ctx.signal?.throwIfAborted();
     const relativePath = path.relative(baseDir, file);
+    ctx.onFile?.(relativePath);
     
     try {
       const content = await fs.readFile(file, 'utf-8');
       
-      const refactoredContent = await refactorFileWithGemini(file, content, issues, relativePath);
+      // Files excluded from refactoring are still recorded with their
+      // content, which incremental analyses compare against
+      const { refactored, validation } = refactorable(relativePath)
+        ? await refactorFile(file, content, issues, relativePath, ctx)
+        : { refactored: content, validation: { status: "skipped" as const } };
       
       refactoredFiles.push({
         file: relativePath,
         original: content,
-        refactored: refactoredContent
+        refactored,
+        validation
       });
     } catch (error) {
       console.error(`Error reading file ${file}:`, error);
@@ -485,74 +285,221 @@ async function refactorFiles(
   return refactoredFiles;
 }
 
+// Run one analyzer plugin and tag its findings. A failing plugin is logged
+// and skipped so the other languages still get analyzed.
+async function runAnalyzer(
+  analyzer: Analyzer,
+  files: string[],
+  baseDir: string,
+  ctx: AnalyzerContext
+): Promise<Issue[]> {
+  try {
+    const issues = await analyzer.analyze(files, baseDir, ctx);
+    return issues.map((issue) => ({ ...issue, analyzer: analyzer.id }));
+  } catch (error) {
+    ctx.signal?.throwIfAborted();
+    console.error(`Analyzer ${analyzer.id} failed:`, error);
+    return [];
+  }
+}
+
+// Analyze a directory in place. Files are only read, never modified; the
+// refactored content is returned in the result.
+export async function analyzeDirectory(
+  requestId: string,
+  dir: string,
+  analysisMode: string = "standard",
+  options: AnalyzeOptions = {}
+): Promise<AnalysisResult> {
+  const { onProgress, signal, bypassCache, baseline, include, exclude, rootDir = dir } = options;
+  // Result paths are relative to `dir`, config globs and baseline entries to the root
+  const subpath = path.relative(rootDir, dir).split(path.sep).join("/");
+  signal?.throwIfAborted();
+  onProgress?.({ stage: "discovering", message: "Discovering source files" });
+  const config = await readRepoConfig(rootDir);
+  const analyzers = selectAnalyzers(analyzerRegistry.list(), config);
+  const { files: allFiles, skipped } = await discoverFiles(dir, {
+    extensions: Array.from(new Set(analyzers.flatMap((analyzer) => analyzer.extensions))),
+    config,
+    root: rootDir,
+    include,
+    exclude,
+  });
+  const assignments = analyzers
+    .map((analyzer) => ({
+      analyzer,
+      files: allFiles.filter((file) => analyzer.extensions.includes(path.extname(file).toLowerCase())),
+    }))
+    .filter((assignment) => assignment.files.length > 0);
+  
+  const languages = Array.from(
+    new Set(assignments.flatMap(({ analyzer }) => (analyzer.language ? [analyzer.language] : [])))
+  );
+  
+  // Only files that differ from the baseline go through the analyzers again.
+  // Project-wide tools still see the whole tree on disk, but their findings in
+  // unchanged files come from the baseline. A changed config may report
+  // different issues for the same code, so then nothing is reused. The
+  // configs are compared structurally, since jsonb does not keep key order.
+  const reusable = baseline && isDeepStrictEqual(baseline.config ?? null, config);
+  const reused = reusable ? await unchangedFiles(allFiles, dir, baseline) : new Map<string, RefactoredFile>();
+  const isChanged = (file: string) => !reused.has(path.relative(dir, file));
+  const changedFiles = allFiles.filter(isChanged);
+  const changedAssignments = assignments
+    .map(({ analyzer, files }) => ({ analyzer, files: files.filter(isChanged) }))
+    .filter((assignment) => assignment.files.length > 0);
+  if (baseline) {
+    onProgress?.({
+      stage: "discovering",
+      message: `Reusing results for ${reused.size} unchanged of ${allFiles.length} files`,
+    });
+  }
+  
+  const reportFiles = (stage: "analyzing" | "refactoring", verb: string, total: number): FileProgressCallback => {
+    let current = 0;
+    return (relativePath) => {
+      current++;
+      onProgress?.({
+        stage,
+        message: `${verb} file ${current} of ${total}`,
+        current,
+        total,
+        file: relativePath,
+      });
+    };
+  };
+  const analysisTotal = changedAssignments.reduce((sum, { files }) => sum + files.length, 0);
+  const llm = getLLMProvider(analysisMode);
+  const sharedCache = getLLMCache();
+  const cache = sharedCache && bypassCache ? new WriteOnlyLLMCache(sharedCache) : sharedCache;
+  const analysisCtx: AnalyzerContext = {
+    analysisMode,
+    llm,
+    cache,
+    signal,
+    onFile: reportFiles("analyzing", "Analyzing", analysisTotal),
+  };
+  
+  let allIssues: Issue[] = [];
+  
+  for (const { analyzer, files } of changedAssignments) {
+    const issues = await runAnalyzer(analyzer, files, dir, analysisCtx);
+    allIssues = [...allIssues, ...issues];
+  }
+  allIssues = applyRuleConfig(allIssues, config);
+  
+  if (analysisMode === "quick") {
+    allIssues = allIssues.filter(i => i.severity === "critical" || i.severity === "major");
+  }
+  
+  if (baseline) {
+    // Suppressed issues are carried too, since the comments or baseline file
+    // hiding them may have changed
+    const carried = [...(baseline.issues || []), ...(baseline.suppressed || [])]
+      .filter((issue) => reused.has(issue.file))
+      .map(({ severity, file, line, message, rule, suggestion, analyzer }) => ({
+        severity,
+        file,
+        line,
+        message,
+        rule: rule ?? "",
+        suggestion,
+        analyzer,
+      }));
+    allIssues = [...allIssues, ...carried];
+  }
+  
+  const sources = new Map<string, string>();
+  for (const file of Array.from(new Set(allIssues.map((issue) => issue.file)))) {
+    try {
+      sources.set(file, await fs.readFile(path.join(dir, file), "utf-8"));
+    } catch {
+      // Issues outside the analyzed files cannot carry inline suppressions
+    }
+  }
+  const baselineFile = await readBaselineFile(rootDir);
+  const { issues: reportedIssues, suppressed } = applySuppressions(
+    allIssues,
+    sources,
+    baselineFile && subpath ? scopeBaseline(baselineFile, subpath) : baselineFile
+  );
+  allIssues = reportedIssues;
+  
+  const issuesCount = {
+    critical: allIssues.filter(i => i.severity === "critical").length,
+    major: allIssues.filter(i => i.severity === "major").length,
+    minor: allIssues.filter(i => i.severity === "minor").length
+  };
+  
+  const freshFiles = await refactorFiles(
+    changedFiles,
+    dir,
+    allIssues,
+    { llm, cache, signal, onFile: reportFiles("refactoring", "Refactoring", changedFiles.length) },
+    (relativePath) => shouldRefactor(path.join(subpath, relativePath), config)
+  );
+  signal?.throwIfAborted();
+  
+  // Keep discovery order with reused and fresh files interleaved
+  const freshByPath = new Map(freshFiles.map((file) => [file.file, file]));
+  const refactoredFiles = allFiles.flatMap((file) => {
+    const relativePath = path.relative(dir, file);
+    const entry = reused.get(relativePath) ?? freshByPath.get(relativePath);
+    return entry ? [entry] : [];
+  });
+  
+  return {
+    request_id: requestId,
+    status: "completed",
+    summary: {
+      languages,
+      total_files_analyzed: allFiles.length,
+      issues_count: issuesCount,
+      suppressed_count: suppressed.length
+    },
+    issues: allIssues,
+    suppressed,
+    patches: createPatches(refactoredFiles),
+    refactoredFiles,
+    skipped,
+    incremental: baseline
+      ? {
+          baseline_job_id: baseline.request_id,
+          analyzed_files: changedFiles.length,
+          reused_files: reused.size,
+        }
+      : undefined,
+    config: config ?? undefined,
+  };
+}
+
 export async function analyzeCode(
   requestId: string,
-  zipBuffer?: Buffer,
-  repoUrl?: string,
-  analysisMode: string = "standard"
+  source: CodeSource,
+  analysisMode: string = "standard",
+  options: AnalyzeOptions = {}
 ): Promise<AnalysisResult> {
+  const { zipBuffer, repoUrl, ref, subpath, credentials } = source;
+  const { onProgress, signal } = options;
+  signal?.throwIfAborted();
   const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "code-analysis-"));
   
   try {
+    let commitSha: string | undefined;
     if (zipBuffer) {
+      onProgress?.({ stage: "extracting", message: "Extracting ZIP archive" });
       await extractZip(zipBuffer, tempDir);
     } else if (repoUrl) {
-      await cloneRepo(repoUrl, tempDir);
+      onProgress?.({ stage: "extracting", message: ref ? `Cloning ${ref}` : "Cloning repository" });
+      commitSha = await cloneRepo(repoUrl, tempDir, ref, resolveCredentials(repoUrl, credentials), signal);
     } else {
       throw new Error("No code provided for analysis");
     }
     
-    const pythonFiles = await findFiles(tempDir, [".py"]);
-    const jsFiles = await findFiles(tempDir, [".js", ".jsx", ".mjs"]);
-    const tsFiles = await findFiles(tempDir, [".ts", ".tsx"]);
-    
-    const languages: string[] = [];
-    if (pythonFiles.length > 0) languages.push("python");
-    if (jsFiles.length > 0) languages.push("javascript");
-    if (tsFiles.length > 0) languages.push("typescript");
-    
-    let allIssues: Issue[] = [];
-    
-    if (pythonFiles.length > 0) {
-      const pythonIssues = await analyzePythonFiles(pythonFiles, tempDir);
-      allIssues = [...allIssues, ...pythonIssues];
-    }
-    
-    if (jsFiles.length > 0) {
-      const jsIssues = await analyzeJavaScriptFiles(jsFiles, tempDir);
-      allIssues = [...allIssues, ...jsIssues];
-    }
-    
-    if (tsFiles.length > 0) {
-      const tsIssues = await analyzeTypeScriptFiles(tsFiles, tempDir);
-      allIssues = [...allIssues, ...tsIssues];
-    }
-    
-    if (analysisMode === "quick") {
-      allIssues = allIssues.filter(i => i.severity === "critical" || i.severity === "major");
-    }
-    
-    const issuesCount = {
-      critical: allIssues.filter(i => i.severity === "critical").length,
-      major: allIssues.filter(i => i.severity === "major").length,
-      minor: allIssues.filter(i => i.severity === "minor").length
-    };
-    
-    const allFiles = [...pythonFiles, ...jsFiles, ...tsFiles];
-    const refactoredFiles = await refactorFiles(allFiles, tempDir, allIssues);
-    
-    return {
-      request_id: requestId,
-      status: "completed",
-      summary: {
-        languages,
-        total_files_analyzed: pythonFiles.length + jsFiles.length + tsFiles.length,
-        issues_count: issuesCount
-      },
-      issues: allIssues,
-      patches: [],
-      refactoredFiles
-    };
+    const rootDir = await fs.realpath(tempDir);
+    const dir = subpath ? await resolveSubpath(rootDir, subpath) : rootDir;
+    const result = await analyzeDirectory(requestId, dir, analysisMode, { ...options, rootDir });
+    return { ...result, source: { repo_url: repoUrl, ref, commit_sha: commitSha, subpath } };
   } finally {
     try {
       await fs.rm(tempDir, { recursive: true, force: true });
@@ -562,6 +509,14 @@ export async function analyzeCode(
   }
 }
 
+const skipReasons: Record<SkippedFile["reason"], string> = {
+  gitignore: "ignored by .gitignore",
+  excluded: "excluded",
+  too_large: "too large",
+  generated: "generated",
+  minified: "minified",
+};
+
 export function generateReport(result: AnalysisResult): string {
   let report = `# Code Analysis Report\n\n`;
   report += `**Request ID:** ${result.request_id}\n`;
@@ -573,7 +528,29 @@ export function generateReport(result: AnalysisResult): string {
   report += `- **Total Files Analyzed:** ${result.summary.total_files_analyzed}\n`;
   report += `- **Critical Issues:** ${result.summary.issues_count.critical}\n`;
   report += `- **Major Issues:** ${result.summary.issues_count.major}\n`;
-  report += `- **Minor Issues:** ${result.summary.issues_count.minor}\n\n`;
+  report += `- **Minor Issues:** ${result.summary.issues_count.minor}\n`;
+  if (result.suppressed?.length) {
+    report += `- **Suppressed Issues:** ${result.suppressed.length}\n`;
+  }
+  if (result.source?.repo_url) {
+    report += `- **Repository:** ${result.source.repo_url}${result.source.ref ? ` (${result.source.ref})` : ""}\n`;
+  }
+  if (result.source?.commit_sha) {
+    report += `- **Commit:** ${result.source.commit_sha}\n`;
+  }
+  if (result.source?.subpath) {
+    report += `- **Directory:** ${result.source.subpath}\n`;
+  }
+  if (result.skipped?.length) {
+    report += `- **Skipped Files:** ${result.skipped.length}\n`;
+  }
+  if (result.config) {
+    report += `- **Configuration:** ${CONFIG_FILE}\n`;
+  }
+  if (result.incremental) {
+    report += `- **Baseline:** ${result.incremental.baseline_job_id} (${result.incremental.analyzed_files} files analyzed, ${result.incremental.reused_files} unchanged files carried over)\n`;
+  }
+  report += `\n`;
   
   if (result.issues.length > 0) {
     report += `## Issues Found\n\n`;
@@ -622,6 +599,22 @@ export function generateReport(result: AnalysisResult): string {
     report += `Congratulations! Your code passed all static analysis checks.\n`;
   }
   
+  // Older results have no suppressed list
+  if (result.suppressed?.length) {
+    report += `\n## Suppressed Issues\n\n`;
+    for (const issue of result.suppressed) {
+      const reason = issue.suppressed_by === "inline" ? "scripto-ignore comment" : "baseline";
+      report += `- **${issue.file}:${issue.line}** - ${issue.message} (\`${issue.rule}\`, ${reason})\n`;
+    }
+  }
+  
+  if (result.skipped?.length) {
+    report += `\n## Skipped Files\n\n`;
+    for (const file of result.skipped) {
+      report += `- **${file.file}** - ${skipReasons[file.reason]}${file.detail ? ` (${file.detail})` : ""}\n`;
+    }
+  }
+  
   return report;
 }
 
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { eslintAnalyzer } from "./eslint";
+import type { AnalyzerContext } from "./types";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "scripto-eslint-"));
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+async function writeFiles(files: Record<string, string>) {
+  for (const [file, content] of Object.entries(files)) {
+    await fs.writeFile(path.join(dir, file), content);
+  }
+  return Object.keys(files).map((file) => path.join(dir, file));
+}
+
+const context = (ctx: Partial<AnalyzerContext> = {}): AnalyzerContext => ({
+  analysisMode: "standard",
+  llm: null,
+  cache: null,
+  ...ctx,
+});
+
+const summary = (issues: Awaited<ReturnType<typeof eslintAnalyzer.analyze>>) =>
+  issues.map(({ severity, file, line, rule }) => `${severity} ${file}:${line} ${rule}`);
+
+describe("eslintAnalyzer", () => {
+  it("grades recommended and stylistic rules", async () => {
+    const files = await writeFiles({
+      "app.js": "var a = 1;\nif (a == 2) missing();\nlet b = 2;\nexport { a, b };\n",
+      "tool.cjs": "const fs = require(\"fs\");\nmodule.exports = function () {\n  return;\n  fs.x();\n};\n",
+    });
+    const onFile = vi.fn();
+
+    const issues = await eslintAnalyzer.analyze(files, dir, context({ onFile }));
+
+    expect(onFile.mock.calls).toEqual([["app.js"], ["tool.cjs"]]);
+    expect(summary(issues)).toEqual([
+      "minor app.js:1 eslint/no-var",
+      "minor app.js:2 eslint/eqeqeq",
+      "critical app.js:2 eslint/no-undef",
+      "minor app.js:3 eslint/prefer-const",
+      "critical tool.cjs:4 eslint/no-unreachable",
+    ]);
+    expect(issues[0].suggestion).toBe("Auto-fixable with eslint --fix");
+  });
+
+  it("parses TypeScript and leaves undefined names to the compiler", async () => {
+    const files = await writeFiles({
+      "mod.mts": "type Id = string;\nexport const id: Id = missing;\nvar legacy: number = 1;\nexport { legacy };\n",
+    });
+
+    expect(summary(await eslintAnalyzer.analyze(files, dir, context()))).toEqual(["minor mod.mts:3 eslint/no-var"]);
+  });
+
+  it("reports a file that does not parse as critical", async () => {
+    const files = await writeFiles({ "broken.js": "const = 1;\n" });
+
+    const issues = await eslintAnalyzer.analyze(files, dir, context());
+
+    expect(summary(issues)).toEqual(["critical broken.js:1 eslint/parse-error"]);
+  });
+
+  it("ignores the repository's own ESLint config", async () => {
+    const files = await writeFiles({
+      "eslint.config.js": "export default [{ rules: { \"no-var\": \"off\" } }];\n",
+      "a.js": "var a = 1;\nexport { a };\n",
+    });
+
+    expect(summary(await eslintAnalyzer.analyze(files.slice(1), dir, context()))).toEqual([
+      "minor a.js:1 eslint/no-var",
+    ]);
+  });
+
+  it("stops between files when the analysis is cancelled", async () => {
+    const files = await writeFiles({ "a.js": "var a;\n", "b.js": "var b;\n" });
+    const controller = new AbortController();
+    const onFile = vi.fn(() => controller.abort(new Error("Job cancelled")));
+
+    await expect(eslintAnalyzer.analyze(files, dir, context({ signal: controller.signal, onFile }))).rejects.toThrow(
+      "Job cancelled"
+    );
+    expect(onFile).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,118 @@
+import * as path from "path";
+import { ESLint, type Linter } from "eslint";
+import js from "@eslint/js";
+import globals from "globals";
+import tsParser from "@typescript-eslint/parser";
+import type { Analyzer, Issue } from "./types";
+
+// Recommended rules that almost always point at a real bug rather than a
+// questionable pattern. Other recommended rules are reported as major and
+// the stylistic extras below as minor.
+const criticalRules = new Set([
+  "constructor-super",
+  "getter-return",
+  "no-class-assign",
+  "no-const-assign",
+  "no-dupe-args",
+  "no-dupe-keys",
+  "no-func-assign",
+  "no-import-assign",
+  "no-obj-calls",
+  "no-this-before-super",
+  "no-undef",
+  "no-unreachable",
+  "no-unsafe-finally",
+  "no-unsafe-negation",
+  "no-unsafe-optional-chaining",
+  "use-isnan",
+  "valid-typeof",
+]);
+
+const stylisticRules: Linter.RulesRecord = {
+  "no-var": "warn",
+  "prefer-const": "warn",
+  eqeqeq: ["warn", "smart"],
+};
+
+// The TypeScript compiler already covers these, and the core versions of the
+// rules misfire on type-only syntax
+const rulesOffForTypeScript: Linter.RulesRecord = {
+  "no-undef": "off",
+  "no-unused-vars": "off",
+  "no-redeclare": "off",
+  "no-dupe-class-members": "off",
+};
+
+// Bundled default config; the analyzed repository's own ESLint config is ignored
+const defaultConfig: Linter.Config[] = [
+  {
+    files: ["**/*.js", "**/*.jsx", "**/*.mjs", "**/*.cjs"],
+    languageOptions: {
+      ecmaVersion: "latest",
+      sourceType: "module",
+      globals: { ...globals.browser, ...globals.node },
+      parserOptions: { ecmaFeatures: { jsx: true } },
+    },
+    rules: { ...js.configs.recommended.rules, ...stylisticRules },
+  },
+  {
+    files: ["**/*.ts", "**/*.tsx", "**/*.mts", "**/*.cts"],
+    languageOptions: {
+      parser: tsParser,
+      ecmaVersion: "latest",
+      sourceType: "module",
+      parserOptions: { ecmaFeatures: { jsx: true } },
+    },
+    rules: { ...js.configs.recommended.rules, ...stylisticRules, ...rulesOffForTypeScript },
+  },
+];
+
+function toSeverity(message: Linter.LintMessage): Issue["severity"] {
+  if (message.fatal || (message.ruleId && criticalRules.has(message.ruleId))) {
+    return "critical";
+  }
+  return message.severity === 2 ? "major" : "minor";
+}
+
+export const eslintAnalyzer: Analyzer = {
+  id: "eslint",
+  extensions: [".js", ".jsx", ".mjs", ".cjs", ".ts", ".tsx", ".mts", ".cts"],
+
+  async analyze(files, baseDir, ctx) {
+    const eslint = new ESLint({
+      cwd: baseDir,
+      overrideConfigFile: true,
+      overrideConfig: defaultConfig,
+      ignore: false,
+      errorOnUnmatchedPattern: false,
+    });
+    const issues: Issue[] = [];
+
+    for (const file of files) {
+      ctx.signal?.throwIfAborted();
+      const relativePath = path.relative(baseDir, file);
+      ctx.onFile?.(relativePath);
+
+      try {
+        const [result] = await eslint.lintFiles([file]);
+        for (const message of result?.messages ?? []) {
+          issues.push({
+            severity: toSeverity(message),
+            file: relativePath,
+            line: message.line || 1,
+            message: message.message,
+            rule: message.ruleId ? `eslint/${message.ruleId}` : "eslint/parse-error",
+            suggestion: message.fix
+              ? "Auto-fixable with eslint --fix"
+              : message.suggestions?.[0]?.desc,
+          });
+        }
+      } catch (error) {
+        console.error(`Error running ESLint on ${file}:`, error);
+      }
+    }
+
+    console.log(`ESLint found ${issues.length} issues`);
+    return issues;
+  },
+};
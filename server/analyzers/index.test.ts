@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { AnalyzerRegistry, analyzerRegistry, type Analyzer } from "./index";
+
+function analyzer(id: string, extensions: string[]): Analyzer {
+  return { id, extensions, analyze: async () => [] };
+}
+
+describe("AnalyzerRegistry", () => {
+  it("lists analyzers in registration order and merges their extensions", () => {
+    const registry = new AnalyzerRegistry();
+    registry.register(analyzer("python", [".py"]));
+    registry.register(analyzer("eslint", [".js", ".ts"]));
+    registry.register(analyzer("tsc", [".ts"]));
+
+    expect(registry.list().map((entry) => entry.id)).toEqual(["python", "eslint", "tsc"]);
+    expect(registry.extensions()).toEqual([".py", ".js", ".ts"]);
+    expect(registry.get("tsc")?.extensions).toEqual([".ts"]);
+    expect(registry.get("rubocop")).toBeUndefined();
+  });
+
+  it("rejects a second analyzer with the same id", () => {
+    const registry = new AnalyzerRegistry();
+    registry.register(analyzer("eslint", [".js"]));
+
+    expect(() => registry.register(analyzer("eslint", [".mjs"]))).toThrow('Analyzer "eslint" is already registered');
+  });
+
+  it("registers the built-in analyzers", () => {
+    expect(analyzerRegistry.list().map((entry) => entry.id)).toEqual([
+      "python",
+      "javascript",
+      "typescript",
+      "eslint",
+      "tsc",
+    ]);
+  });
+});
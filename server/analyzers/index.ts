@@ -0,0 +1,39 @@
+import { pythonAnalyzer } from "./python";
+import { javascriptAnalyzer, typescriptAnalyzer } from "./llm";
+import { eslintAnalyzer } from "./eslint";
+import { tscAnalyzer } from "./tsc";
+import type { Analyzer } from "./types";
+
+export type { Analyzer, AnalyzerContext, FileProgressCallback, Issue } from "./types";
+
+export class AnalyzerRegistry {
+  private analyzers = new Map<string, Analyzer>();
+
+  register(analyzer: Analyzer): void {
+    if (this.analyzers.has(analyzer.id)) {
+      throw new Error(`Analyzer "${analyzer.id}" is already registered`);
+    }
+    this.analyzers.set(analyzer.id, analyzer);
+  }
+
+  get(id: string): Analyzer | undefined {
+    return this.analyzers.get(id);
+  }
+
+  // In registration order, which is also the order languages are reported in
+  list(): Analyzer[] {
+    return Array.from(this.analyzers.values());
+  }
+
+  extensions(): string[] {
+    return Array.from(new Set(this.list().flatMap((analyzer) => analyzer.extensions)));
+  }
+}
+
+export const analyzerRegistry = new AnalyzerRegistry();
+
+analyzerRegistry.register(pythonAnalyzer);
+analyzerRegistry.register(javascriptAnalyzer);
+analyzerRegistry.register(typescriptAnalyzer);
+analyzerRegistry.register(eslintAnalyzer);
+analyzerRegistry.register(tscAnalyzer);
@@ -0,0 +1,15 @@
+import { analyzeFilesWithLLM } from "../llm/review";
+import type { Analyzer } from "./types";
+
+// Languages that are only reviewed by the LLM, with no local tool fallback
+function llmAnalyzer(language: string, extensions: string[]): Analyzer {
+  return {
+    id: language,
+    language,
+    extensions,
+    analyze: (files, baseDir, ctx) => analyzeFilesWithLLM(files, baseDir, language, ctx),
+  };
+}
+
+export const javascriptAnalyzer = llmAnalyzer("javascript", [".js", ".jsx", ".mjs"]);
+export const typescriptAnalyzer = llmAnalyzer("typescript", [".ts", ".tsx"]);
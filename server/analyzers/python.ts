@@ -0,0 +1,161 @@
+import { exec } from "child_process";
+import { promisify } from "util";
+import * as path from "path";
+import { analyzeFilesWithLLM } from "../llm/review";
+import type { Analyzer, AnalyzerContext, Issue } from "./types";
+
+const execAsync = promisify(exec);
+
+// Fallback: Analyze Python files with pylint
+async function analyzePythonWithPylint(
+  files: string[],
+  baseDir: string,
+  ctx: Pick<AnalyzerContext, "signal" | "onFile">
+): Promise<Issue[]> {
+  const issues: Issue[] = [];
+  
+  for (const file of files) {
+    ctx.signal?.throwIfAborted();
+    const relativePath = path.relative(baseDir, file);
+    ctx.onFile?.(relativePath);
+    try {
+      const { stdout, stderr } = await execAsync(
+        `pylint --output-format=json --disable=C0114,C0115,C0116 "${file}" 2>/dev/null || true`,
+        { timeout: 30000, maxBuffer: 5 * 1024 * 1024, signal: ctx.signal }
+      );
+      
+      if (stdout.trim()) {
+        try {
+          const pylintIssues = JSON.parse(stdout);
+          for (const issue of pylintIssues) {
+            let severity: "critical" | "major" | "minor" = "minor";
+            if (issue.type === "error" || issue.type === "fatal") {
+              severity = "critical";
+            } else if (issue.type === "warning") {
+              severity = "major";
+            }
+            
+            issues.push({
+              severity,
+              file: relativePath,
+              line: issue.line || 1,
+              message: issue.message || "Unknown issue",
+              rule: `python/pylint-${issue.symbol || issue["message-id"] || "unknown"}`,
+              suggestion: `Fix the ${issue.type} issue`
+            });
+          }
+        } catch (parseError) {
+          console.error(`Error parsing pylint output for ${file}:`, parseError);
+        }
+      }
+    } catch (error) {
+      ctx.signal?.throwIfAborted();
+      console.error(`Error running pylint on ${file}:`, error);
+    }
+  }
+  
+  return issues;
+}
+
+// Fallback: Analyze Python files with pyflakes
+async function analyzePythonWithPyflakes(
+  files: string[],
+  baseDir: string,
+  signal?: AbortSignal
+): Promise<Issue[]> {
+  const issues: Issue[] = [];
+  
+  for (const file of files) {
+    signal?.throwIfAborted();
+    const relativePath = path.relative(baseDir, file);
+    try {
+      const { stdout, stderr } = await execAsync(
+        `pyflakes "${file}" 2>&1 || true`,
+        { timeout: 30000, maxBuffer: 5 * 1024 * 1024, signal }
+      );
+      
+      const output = stdout + stderr;
+      const lines = output.split('\n').filter(l => l.trim());
+      
+      for (const line of lines) {
+        const match = line.match(/:(\d+):?\s*(.+)/);
+        if (match) {
+          const lineNum = parseInt(match[1], 10) || 1;
+          const message = match[2].trim();
+          
+          let severity: "critical" | "major" | "minor" = "minor";
+          if (message.includes("undefined") || message.includes("syntax")) {
+            severity = "critical";
+          } else if (message.includes("imported but unused") || message.includes("redefinition")) {
+            severity = "major";
+          }
+          
+          issues.push({
+            severity,
+            file: relativePath,
+            line: lineNum,
+            message,
+            rule: "python/pyflakes",
+            suggestion: "Review and fix the issue"
+          });
+        }
+      }
+    } catch (error) {
+      signal?.throwIfAborted();
+      console.error(`Error running pyflakes on ${file}:`, error);
+    }
+  }
+  
+  return issues;
+}
+
+// Try the LLM first, fall back to pylint/pyflakes
+export const pythonAnalyzer: Analyzer = {
+  id: "python",
+  language: "python",
+  extensions: [".py"],
+
+  async analyze(files: string[], baseDir: string, ctx: AnalyzerContext): Promise<Issue[]> {
+    let issues: Issue[] = [];
+    let llmWorked = false;
+  
+    // Try the LLM first
+    if (ctx.llm) {
+      try {
+        issues = await analyzeFilesWithLLM(files, baseDir, "python", ctx);
+        if (issues.length > 0) {
+          llmWorked = true;
+          console.log(`${ctx.llm.id} found ${issues.length} Python issues`);
+        }
+      } catch (error) {
+        ctx.signal?.throwIfAborted();
+        console.log(`${ctx.llm.id} analysis failed, falling back to local tools`);
+      }
+    }
+  
+    // If the LLM didn't work or found no issues, use pylint + pyflakes
+    if (!llmWorked) {
+      console.log("Using pylint and pyflakes for Python analysis");
+      // Progress was already reported by the LLM pass if it ran
+      const pylintIssues = await analyzePythonWithPylint(
+        files,
+        baseDir,
+        ctx.llm ? { signal: ctx.signal } : ctx
+      );
+      const pyflakesIssues = await analyzePythonWithPyflakes(files, baseDir, ctx.signal);
+    
+      // Combine and deduplicate
+      const seenKeys = new Set<string>();
+      for (const issue of [...pylintIssues, ...pyflakesIssues]) {
+        const key = `${issue.file}:${issue.line}:${issue.message}`;
+        if (!seenKeys.has(key)) {
+          seenKeys.add(key);
+          issues.push(issue);
+        }
+      }
+      console.log(`Local tools found ${issues.length} Python issues`);
+    }
+  
+    return issues;
+  },
+};
@@ -0,0 +1,99 @@
+import * as path from "path";
+import { parentPort, workerData } from "worker_threads";
+import ts from "typescript";
+import type { Issue } from "./types";
+
+// Runs in a worker thread started by the tsc analyzer: creating and checking
+// a program is synchronous and would otherwise block the server's event loop.
+
+export interface TscWorkerInput {
+  files: string[];
+  baseDir: string;
+}
+
+export type TscWorkerMessage =
+  | { type: "file"; relativePath: string }
+  | { type: "done"; issues: Issue[] };
+
+// Extracted trees have no node_modules, so unresolved imports and missing
+// type packages are expected and would drown out real findings
+const ignoredDiagnostics = new Set([
+  2307, // Cannot find module
+  2688, // Cannot find type definition file
+  2792, // Cannot find module, did you mean to set moduleResolution
+  7016, // Could not find a declaration file for module
+]);
+
+const defaultCompilerOptions: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ESNext,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.Preserve,
+  strict: true,
+  esModuleInterop: true,
+  skipLibCheck: true,
+};
+
+// Use the repository's own tsconfig.json when it has one at the root
+function loadCompilerOptions(baseDir: string): ts.CompilerOptions {
+  const configPath = path.join(baseDir, "tsconfig.json");
+  if (!ts.sys.fileExists(configPath)) {
+    return defaultCompilerOptions;
+  }
+
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (error) {
+    return defaultCompilerOptions;
+  }
+  return ts.parseJsonConfigFileContent(config, ts.sys, baseDir).options;
+}
+
+function toIssue(diagnostic: ts.Diagnostic, relativePath: string, syntactic: boolean): Issue {
+  const line = diagnostic.file && diagnostic.start !== undefined
+    ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start).line + 1
+    : 1;
+
+  let severity: Issue["severity"] = "minor";
+  if (syntactic) {
+    severity = "critical";
+  } else if (diagnostic.category === ts.DiagnosticCategory.Error) {
+    severity = "major";
+  }
+
+  return {
+    severity,
+    file: relativePath,
+    line,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"),
+    rule: `typescript/TS${diagnostic.code}`,
+  };
+}
+
+function check({ files, baseDir }: TscWorkerInput) {
+  const program = ts.createProgram(files, {
+    ...loadCompilerOptions(baseDir),
+    noEmit: true,
+    types: [],
+  });
+  const issues: Issue[] = [];
+
+  for (const file of files) {
+    const relativePath = path.relative(baseDir, file);
+    parentPort!.postMessage({ type: "file", relativePath } satisfies TscWorkerMessage);
+
+    const sourceFile = program.getSourceFile(file);
+    if (!sourceFile) continue;
+
+    for (const diagnostic of program.getSyntacticDiagnostics(sourceFile)) {
+      issues.push(toIssue(diagnostic, relativePath, true));
+    }
+    for (const diagnostic of program.getSemanticDiagnostics(sourceFile)) {
+      if (ignoredDiagnostics.has(diagnostic.code)) continue;
+      issues.push(toIssue(diagnostic, relativePath, false));
+    }
+  }
+
+  parentPort!.postMessage({ type: "done", issues } satisfies TscWorkerMessage);
+}
+
+check(workerData as TscWorkerInput);
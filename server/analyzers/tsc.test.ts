@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { Worker } from "worker_threads";
+import { tscAnalyzer } from "./tsc";
+import type { AnalyzerContext } from "./types";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "scripto-tsc-"));
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+async function writeFiles(files: Record<string, string>) {
+  for (const [file, content] of Object.entries(files)) {
+    await fs.writeFile(path.join(dir, file), content);
+  }
+  return Object.keys(files).map((file) => path.join(dir, file));
+}
+
+const context = (ctx: Partial<AnalyzerContext> = {}): AnalyzerContext => ({
+  analysisMode: "standard",
+  llm: null,
+  cache: null,
+  ...ctx,
+});
+
+describe("tscAnalyzer", () => {
+  it("reports type and syntax errors from the worker thread", async () => {
+    const files = await writeFiles({
+      "ok.ts": "export const a: number = 1;\n",
+      "types.ts": "import { x } from \"missing\";\n\nexport const b: number = \"text\";\n",
+      "syntax.ts": "export const c = ;\n",
+    });
+    const onFile = vi.fn();
+
+    const issues = await tscAnalyzer.analyze(files, dir, context({ onFile }));
+
+    expect(onFile.mock.calls).toEqual([["ok.ts"], ["types.ts"], ["syntax.ts"]]);
+    expect(issues).toEqual([
+      {
+        severity: "major",
+        file: "types.ts",
+        line: 3,
+        message: "Type 'string' is not assignable to type 'number'.",
+        rule: "typescript/TS2322",
+      },
+      { severity: "critical", file: "syntax.ts", line: 1, message: "Expression expected.", rule: "typescript/TS1109" },
+    ]);
+  });
+
+  it("uses the repository's tsconfig.json", async () => {
+    const files = await writeFiles({
+      "tsconfig.json": JSON.stringify({ compilerOptions: { strict: false } }),
+      "loose.ts": "export function f(x) { return x; }\n",
+    });
+
+    expect(await tscAnalyzer.analyze(files.slice(1), dir, context())).toEqual([]);
+  });
+
+  it("stops the worker and rejects when the analysis is cancelled", async () => {
+    const files = await writeFiles({ "a.ts": "export const a = 1;\n" });
+    const terminate = vi.spyOn(Worker.prototype, "terminate");
+    const controller = new AbortController();
+
+    const analysis = tscAnalyzer.analyze(files, dir, context({ signal: controller.signal }));
+    controller.abort(new Error("Job cancelled"));
+
+    await expect(analysis).rejects.toThrow("Job cancelled");
+    expect(terminate).toHaveBeenCalledTimes(1);
+  });
+});
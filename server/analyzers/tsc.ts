@@ -0,0 +1,51 @@
+import * as path from "path";
+import { Worker } from "worker_threads";
+import type { Analyzer, Issue } from "./types";
+import type { TscWorkerInput, TscWorkerMessage } from "./tsc-worker";
+
+// Bundled builds ship the worker as tsc-worker.cjs next to the entry point.
+// In development the worker loads tsx itself to run the TypeScript source.
+function createWorker(workerData: TscWorkerInput): Worker {
+  if (typeof __filename !== "undefined" && __filename.endsWith(".cjs")) {
+    return new Worker(path.join(__dirname, "tsc-worker.cjs"), { workerData });
+  }
+  const source = new URL("./tsc-worker.ts", import.meta.url).href;
+  const bootstrap = `import("tsx/esm/api").then(({ register }) => { register(); return import(${JSON.stringify(source)}); })`;
+  return new Worker(bootstrap, { eval: true, workerData });
+}
+
+export const tscAnalyzer: Analyzer = {
+  id: "tsc",
+  extensions: [".ts", ".tsx"],
+
+  async analyze(files, baseDir, ctx) {
+    ctx.signal?.throwIfAborted();
+    const worker = createWorker({ files, baseDir });
+
+    const issues = await new Promise<Issue[]>((resolve, reject) => {
+      // Type checking cannot be interrupted from inside, so a cancel stops the thread
+      const onAbort = () => {
+        reject(ctx.signal!.reason);
+        void worker.terminate();
+      };
+      ctx.signal?.addEventListener("abort", onAbort, { once: true });
+
+      worker.on("message", (message: TscWorkerMessage) => {
+        if (message.type === "file") {
+          ctx.onFile?.(message.relativePath);
+        } else {
+          resolve(message.issues);
+        }
+      });
+      worker.on("error", reject);
+      worker.on("exit", (code) => {
+        ctx.signal?.removeEventListener("abort", onAbort);
+        // A no-op once the result arrived
+        reject(new Error(`TypeScript compiler worker exited with code ${code}`));
+      });
+    });
+
+    console.log(`TypeScript compiler found ${issues.length} issues`);
+    return issues;
+  },
+};
@@ -0,0 +1,37 @@
+import type { LLMCache } from "../llm/cache";
+import type { LLMProvider } from "../llm/types";
+
+export interface Issue {
+  severity: "critical" | "major" | "minor";
+  file: string;
+  line: number;
+  message: string;
+  rule: string;
+  suggestion?: string;
+  // Id of the analyzer that reported the issue, set by the orchestrator
+  analyzer?: string;
+}
+
+// Called with the relative path of each file as a per-file pass reaches it
+export type FileProgressCallback = (relativePath: string) => void;
+
+export interface AnalyzerContext {
+  analysisMode: string;
+  // Provider selected for this analysis mode, null when AI analysis is off
+  llm: LLMProvider | null;
+  // Cache for per-file LLM answers, null when caching is off
+  cache: LLMCache | null;
+  signal?: AbortSignal;
+  onFile?: FileProgressCallback;
+}
+
+// A language or tool plugin. `analyze` receives absolute paths of the
+// discovered files matching `extensions` and reports issues with paths
+// relative to `baseDir`. `language` is listed in the result summary when the
+// analyzer has files; tools spanning several languages leave it unset.
+export interface Analyzer {
+  id: string;
+  language?: string;
+  extensions: string[];
+  analyze(files: string[], baseDir: string, ctx: AnalyzerContext): Promise<Issue[]>;
+}
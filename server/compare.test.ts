@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import type { AnalysisIssue, AnalysisResult } from "@shared/schema";
+import { compareResults, matchIssues } from "./compare";
+
+function issue(
+  file: string,
+  line: number,
+  rule: string,
+  message: string,
+  severity: AnalysisIssue["severity"] = "minor"
+) {
+  return { severity, file, line, rule, message };
+}
+
+function run(requestId: string, issues: AnalysisIssue[]): AnalysisResult {
+  return { request_id: requestId, status: "completed", issues };
+}
+
+describe("matchIssues", () => {
+  it("pairs issues that moved a few lines and ignores case and whitespace in messages", () => {
+    const base = [issue("a.js", 10, "no-var", "Unexpected var")];
+    const head = [issue("a.js", 14, "no-var", "unexpected  var ")];
+    expect(matchIssues(base, head)).toEqual([[0, 0]]);
+  });
+
+  it("does not pair issues that moved too far or are in another file", () => {
+    const base = [issue("a.js", 10, "no-var", "Unexpected var")];
+    expect(matchIssues(base, [issue("a.js", 16, "no-var", "Unexpected var")])).toEqual([]);
+    expect(matchIssues(base, [issue("b.js", 10, "no-var", "Unexpected var")])).toEqual([]);
+  });
+
+  it("pairs reworded findings of the same rule only when allowed", () => {
+    const base = [issue("a.py", 3, "llm/naming", "Variable x is unclear")];
+    const head = [issue("a.py", 3, "llm/naming", "Rename x to something descriptive")];
+
+    expect(matchIssues(base, head)).toEqual([[0, 0]]);
+    expect(matchIssues(base, head, { lineTolerance: 5, allowReworded: false })).toEqual([]);
+  });
+
+  it("prefers an identical message over a closer reworded one", () => {
+    const base = [issue("a.js", 10, "r", "same text"), issue("a.js", 11, "r", "other text")];
+    const head = [issue("a.js", 11, "r", "same text")];
+    expect(matchIssues(base, head)).toEqual([[0, 0]]);
+  });
+
+  it("pairs the closest lines first and uses each issue once", () => {
+    const base = [issue("a.js", 1, "r", "m"), issue("a.js", 5, "r", "m")];
+    const head = [issue("a.js", 6, "r", "m"), issue("a.js", 2, "r", "m"), issue("a.js", 3, "r", "m")];
+    expect(matchIssues(base, head)).toEqual([
+      [1, 0],
+      [0, 1],
+    ]);
+  });
+});
+
+describe("compareResults", () => {
+  it("splits issues into new, fixed and unchanged with severity deltas", () => {
+    const kept = issue("a.js", 1, "no-var", "Unexpected var", "major");
+    const fixed = issue("a.js", 20, "no-eval", "eval is harmful", "critical");
+    const added = issue("b.js", 3, "no-console", "Unexpected console", "minor");
+    const moved = { ...kept, line: 3 };
+
+    const comparison = compareResults(run("req-base", [kept, fixed]), run("req-head", [moved, added]));
+
+    expect(comparison).toEqual({
+      base_job_id: "req-base",
+      head_job_id: "req-head",
+      new: [added],
+      fixed: [fixed],
+      unchanged: [{ base: kept, head: moved }],
+      severity_deltas: {
+        critical: { base: 1, head: 0, delta: -1 },
+        major: { base: 1, head: 1, delta: 0 },
+        minor: { base: 0, head: 1, delta: 1 },
+      },
+    });
+  });
+});
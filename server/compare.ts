@@ -0,0 +1,119 @@
+import type { AnalysisIssue, AnalysisResult, IssueMatch, IssueSeverity, RunComparison } from "@shared/schema";
+
+// How far an issue may move between runs and still count as the same one,
+// e.g. after lines were added above it
+const LINE_TOLERANCE = 5;
+
+const severities: IssueSeverity[] = ["critical", "major", "minor"];
+
+// The fields issues are matched on, shared by job results and baseline entries
+export type MatchableIssue = Pick<AnalysisIssue, "file" | "line" | "rule" | "message">;
+
+type Matcher = (base: MatchableIssue, head: MatchableIssue) => boolean;
+
+export interface MatchOptions {
+  // Largest line distance between paired issues
+  lineTolerance: number;
+  // Also pair issues of the same rule whose messages differ
+  allowReworded: boolean;
+}
+
+function normalizeMessage(message: string): string {
+  return message.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+const sameMessage: Matcher = (base, head) =>
+  (base.rule ?? "") === (head.rule ?? "") && normalizeMessage(base.message) === normalizeMessage(head.message);
+
+// LLM analyzers reword their findings from run to run
+const sameRule: Matcher = (base, head) => (base.rule ?? "") === (head.rule ?? "");
+
+function groupByFile(issues: MatchableIssue[]): Map<string, number[]> {
+  const groups = new Map<string, number[]>();
+  issues.forEach((issue, index) => {
+    const group = groups.get(issue.file) ?? [];
+    group.push(index);
+    groups.set(issue.file, group);
+  });
+  return groups;
+}
+
+function countBySeverity(issues: AnalysisIssue[]): Record<IssueSeverity, number> {
+  return {
+    critical: issues.filter((issue) => issue.severity === "critical").length,
+    major: issues.filter((issue) => issue.severity === "major").length,
+    minor: issues.filter((issue) => issue.severity === "minor").length,
+  };
+}
+
+// Pairs each issue with at most one issue of the other list, returned as
+// [baseIndex, headIndex] in head order. Identical messages are paired before
+// reworded ones so an exact finding is never taken by a merely similar one,
+// and within a pass the closest lines are paired first.
+export function matchIssues(
+  base: MatchableIssue[],
+  head: MatchableIssue[],
+  options: MatchOptions = { lineTolerance: LINE_TOLERANCE, allowReworded: true }
+): Array<[number, number]> {
+  const matchers = options.allowReworded ? [sameMessage, sameRule] : [sameMessage];
+  const matchedBase = new Set<number>();
+  const matchedHead = new Set<number>();
+  const pairs: Array<[number, number]> = [];
+
+  const headByFile = groupByFile(head);
+  for (const [file, baseIndexes] of Array.from(groupByFile(base).entries())) {
+    const headIndexes = headByFile.get(file) ?? [];
+
+    for (const matches of matchers) {
+      const candidates: Array<{ baseIndex: number; headIndex: number; distance: number }> = [];
+      for (const baseIndex of baseIndexes) {
+        if (matchedBase.has(baseIndex)) continue;
+        for (const headIndex of headIndexes) {
+          if (matchedHead.has(headIndex)) continue;
+          const distance = Math.abs(base[baseIndex].line - head[headIndex].line);
+          if (distance <= options.lineTolerance && matches(base[baseIndex], head[headIndex])) {
+            candidates.push({ baseIndex, headIndex, distance });
+          }
+        }
+      }
+      candidates.sort((a, b) => a.distance - b.distance || a.headIndex - b.headIndex || a.baseIndex - b.baseIndex);
+
+      for (const { baseIndex, headIndex } of candidates) {
+        if (matchedBase.has(baseIndex) || matchedHead.has(headIndex)) continue;
+        matchedBase.add(baseIndex);
+        matchedHead.add(headIndex);
+        pairs.push([baseIndex, headIndex]);
+      }
+    }
+  }
+
+  return pairs.sort(([, a], [, b]) => a - b);
+}
+
+export function compareResults(base: AnalysisResult, head: AnalysisResult): RunComparison {
+  const baseIssues = base.issues || [];
+  const headIssues = head.issues || [];
+  const pairs = matchIssues(baseIssues, headIssues);
+  const matchedBase = new Set(pairs.map(([baseIndex]) => baseIndex));
+  const matchedHead = new Set(pairs.map(([, headIndex]) => headIndex));
+
+  const baseCounts = countBySeverity(baseIssues);
+  const headCounts = countBySeverity(headIssues);
+
+  return {
+    base_job_id: base.request_id,
+    head_job_id: head.request_id,
+    new: headIssues.filter((_, index) => !matchedHead.has(index)),
+    fixed: baseIssues.filter((_, index) => !matchedBase.has(index)),
+    unchanged: pairs.map(([baseIndex, headIndex]): IssueMatch => ({
+      base: baseIssues[baseIndex],
+      head: headIssues[headIndex],
+    })),
+    severity_deltas: Object.fromEntries(
+      severities.map((severity) => [
+        severity,
+        { base: baseCounts[severity], head: headCounts[severity], delta: headCounts[severity] - baseCounts[severity] },
+      ])
+    ) as RunComparison["severity_deltas"],
+  };
+}
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import type { RepoConfig } from "@shared/schema";
+import { analyzerRegistry, type Issue } from "./analyzers";
+import {
+  CONFIG_FILE,
+  RepoConfigError,
+  applyRuleConfig,
+  matchingGlob,
+  readRepoConfig,
+  selectAnalyzers,
+  shouldRefactor,
+} from "./config";
+
+function issue(rule: string, severity: Issue["severity"] = "minor"): Issue {
+  return { severity, file: "a.js", line: 1, message: "message", rule };
+}
+
+describe("readRepoConfig", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "scripto-config-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const writeConfig = (content: string) => fs.writeFile(path.join(dir, CONFIG_FILE), content);
+
+  it("returns null without a config file and an empty config for an empty one", async () => {
+    expect(await readRepoConfig(dir)).toBeNull();
+
+    await writeConfig("");
+    expect(await readRepoConfig(dir)).toEqual({});
+  });
+
+  it("parses a valid config", async () => {
+    await writeConfig(
+      [
+        "analyzers: [eslint, python]",
+        "exclude: [vendor/**]",
+        "severity_overrides:",
+        "  no-var: major",
+        "max_file_size: 1000",
+        "refactor:",
+        "  enabled: false",
+      ].join("\n")
+    );
+
+    expect(await readRepoConfig(dir)).toEqual({
+      analyzers: ["eslint", "python"],
+      exclude: ["vendor/**"],
+      severity_overrides: { "no-var": "major" },
+      max_file_size: 1000,
+      refactor: { enabled: false },
+    });
+  });
+
+  it("rejects invalid YAML", async () => {
+    await writeConfig("exclude: [vendor/**");
+    await expect(readRepoConfig(dir)).rejects.toThrow(RepoConfigError);
+    await expect(readRepoConfig(dir)).rejects.toThrow(/is not valid YAML/);
+  });
+
+  it("names unknown keys and invalid values", async () => {
+    await writeConfig("exlude: [vendor/**]\nrefactor:\n  enabled: sometimes\n");
+    const error = await readRepoConfig(dir).catch((error: Error) => error);
+
+    expect(error).toBeInstanceOf(RepoConfigError);
+    expect((error as Error).message).toMatch(/Unrecognized key\(s\) in object: 'exlude'/);
+    expect((error as Error).message).toMatch(/refactor\.enabled: Expected boolean/);
+  });
+
+  it("names unknown analyzers and lists the known ones", async () => {
+    await writeConfig("analyzers: [eslint, rubocop]\n");
+    await expect(readRepoConfig(dir)).rejects.toThrow(
+      /unknown analyzers rubocop \(expected python, javascript, typescript, eslint, tsc\)/
+    );
+  });
+});
+
+describe("matchingGlob", () => {
+  it("returns the first matching pattern", () => {
+    expect(matchingGlob("src/vendor/lib.js", ["*.py", "src/vendor/**", "**/*.js"])).toBe("src/vendor/**");
+    expect(matchingGlob("src/app.js", ["*.py"])).toBeUndefined();
+    expect(matchingGlob("src/app.js", undefined)).toBeUndefined();
+  });
+
+  it("matches a pattern without a slash against the file name in any directory", () => {
+    expect(matchingGlob("a/b/c.min.js", ["*.min.js"])).toBe("*.min.js");
+    expect(matchingGlob("a/b/c.js", ["b/*.js"])).toBeUndefined();
+  });
+
+  it("matches dotfiles", () => {
+    expect(matchingGlob(".github/scripts/release.js", [".github/**"])).toBe(".github/**");
+  });
+
+  it("normalizes platform separators", () => {
+    expect(matchingGlob(["src", "vendor", "lib.js"].join(path.sep), ["src/vendor/*.js"])).toBe("src/vendor/*.js");
+  });
+});
+
+describe("shouldRefactor", () => {
+  it("refactors everything without a refactor section", () => {
+    expect(shouldRefactor("a.js", null)).toBe(true);
+    expect(shouldRefactor("a.js", { exclude: ["a.js"] })).toBe(true);
+  });
+
+  it("applies enabled, include and exclude", () => {
+    expect(shouldRefactor("a.js", { refactor: { enabled: false } })).toBe(false);
+
+    const config: RepoConfig = { refactor: { include: ["src/**"], exclude: ["src/generated/**"] } };
+    expect(shouldRefactor("src/app.js", config)).toBe(true);
+    expect(shouldRefactor("lib/app.js", config)).toBe(false);
+    expect(shouldRefactor("src/generated/api.js", config)).toBe(false);
+  });
+});
+
+describe("selectAnalyzers", () => {
+  const analyzers = analyzerRegistry.list();
+
+  it("keeps every analyzer without an analyzers list", () => {
+    expect(selectAnalyzers(analyzers, null)).toBe(analyzers);
+    expect(selectAnalyzers(analyzers, {})).toBe(analyzers);
+  });
+
+  it("keeps only the listed analyzers, in registration order", () => {
+    const selected = selectAnalyzers(analyzers, { analyzers: ["tsc", "python"] });
+    expect(selected.map((analyzer) => analyzer.id)).toEqual(["python", "tsc"]);
+  });
+});
+
+describe("applyRuleConfig", () => {
+  it("drops disabled rules with or without the analyzer prefix", () => {
+    const issues = [issue("eslint/no-var"), issue("eslint/no-eval"), issue("pylint/no-eval"), issue("tsc/TS2304")];
+    const config: RepoConfig = { disabled_rules: ["no-var", "pylint/no-eval"] };
+
+    expect(applyRuleConfig(issues, config).map((i) => i.rule)).toEqual(["eslint/no-eval", "tsc/TS2304"]);
+  });
+
+  it("overrides severities, preferring an exact rule over an unprefixed one", () => {
+    const config: RepoConfig = {
+      severity_overrides: { "no-eval": "major", "eslint/no-eval": "critical" },
+    };
+
+    const result = applyRuleConfig([issue("eslint/no-eval"), issue("pylint/no-eval"), issue("no-var")], config);
+
+    expect(result.map((i) => i.severity)).toEqual(["critical", "major", "minor"]);
+  });
+
+  it("returns the issues unchanged without a config", () => {
+    const issues = [issue("eslint/no-var")];
+    expect(applyRuleConfig(issues, null)).toBe(issues);
+  });
+});
@@ -0,0 +1,96 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { minimatch } from "minimatch";
+import { parse as parseYAML } from "yaml";
+import { repoConfigSchema, type RepoConfig } from "@shared/schema";
+import { analyzerRegistry, type Analyzer, type Issue } from "./analyzers";
+import { ruleMatches } from "./suppression";
+
+export const CONFIG_FILE = ".scripto.yml";
+
+// A repository's config file could not be used. Unlike the baseline file, a
+// broken config fails the analysis: silently falling back to the defaults
+// would report issues the team has opted out of.
+export class RepoConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RepoConfigError";
+  }
+}
+
+// The repository's config, or null when it has none
+export async function readRepoConfig(dir: string): Promise<RepoConfig | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(dir, CONFIG_FILE), "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+
+  let data: unknown;
+  try {
+    data = parseYAML(content);
+  } catch (error) {
+    throw new RepoConfigError(`${CONFIG_FILE} is not valid YAML: ${(error as Error).message}`);
+  }
+
+  // An empty file is an empty config
+  const parsed = repoConfigSchema.safeParse(data ?? {});
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map((issue) =>
+      issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+    );
+    throw new RepoConfigError(`Invalid ${CONFIG_FILE}: ${problems.join("; ")}`);
+  }
+
+  const unknown = (parsed.data.analyzers ?? []).filter((id) => !analyzerRegistry.get(id));
+  if (unknown.length > 0) {
+    const known = analyzerRegistry.list().map((analyzer) => analyzer.id);
+    throw new RepoConfigError(
+      `Invalid ${CONFIG_FILE}: unknown analyzers ${unknown.join(", ")} (expected ${known.join(", ")})`
+    );
+  }
+
+  return parsed.data;
+}
+
+// The first of `patterns` that matches. Relative paths use "/" on every
+// platform so the same globs work on Windows.
+export function matchingGlob(relativePath: string, patterns: string[] | undefined): string | undefined {
+  const normalized = relativePath.split(path.sep).join("/");
+  return (patterns ?? []).find((pattern) => minimatch(normalized, pattern, { dot: true, matchBase: true }));
+}
+
+export function matchesGlob(relativePath: string, patterns: string[] | undefined): boolean {
+  return matchingGlob(relativePath, patterns) !== undefined;
+}
+
+export function shouldRefactor(relativePath: string, config: RepoConfig | null): boolean {
+  const refactor = config?.refactor;
+  if (!refactor) return true;
+  if (refactor.enabled === false) return false;
+  if (refactor.include && !matchesGlob(relativePath, refactor.include)) return false;
+  return !matchesGlob(relativePath, refactor.exclude);
+}
+
+export function selectAnalyzers(analyzers: Analyzer[], config: RepoConfig | null): Analyzer[] {
+  if (!config?.analyzers) return analyzers;
+  return analyzers.filter((analyzer) => config.analyzers!.includes(analyzer.id));
+}
+
+// Drop issues of disabled rules and apply severity overrides. An exact rule
+// override wins over one without the analyzer prefix.
+export function applyRuleConfig(issues: Issue[], config: RepoConfig | null): Issue[] {
+  if (!config) return issues;
+  const disabled = config.disabled_rules ?? [];
+  const overrides = Object.entries(config.severity_overrides ?? {});
+
+  return issues
+    .filter((issue) => !disabled.some((rule) => ruleMatches(issue.rule, rule)))
+    .map((issue) => {
+      const override =
+        overrides.find(([rule]) => rule === issue.rule) ?? overrides.find(([rule]) => ruleMatches(issue.rule, rule));
+      return override ? { ...issue, severity: override[1] } : issue;
+    });
+}
@@ -0,0 +1,46 @@
+import { Pool as NeonPool, neonConfig } from "@neondatabase/serverless";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import { drizzle as drizzleNodePostgres } from "drizzle-orm/node-postgres";
+import { drizzle as drizzlePglite } from "drizzle-orm/pglite";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import pg from "pg";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Any drizzle Postgres database built with our schema (neon, node-postgres, pglite)
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export const databaseDrivers = ["neon", "pg", "pglite"] as const;
+export type DatabaseDriver = (typeof databaseDrivers)[number];
+
+// `url` is a connection string, or for pglite a data directory (in memory when unset)
+export function createDb(driver: DatabaseDriver, url?: string): Database {
+  switch (driver) {
+    case "neon":
+      return drizzleNeon({ client: new NeonPool({ connectionString: url }), schema });
+    case "pg":
+      return drizzleNodePostgres({ client: new pg.Pool({ connectionString: url }), schema });
+    case "pglite":
+      return drizzlePglite({ client: new PGlite(url), schema });
+  }
+}
+
+let db: Database | null = null;
+
+export function getDb(): Database {
+  if (db) return db;
+
+  const driver = process.env.DATABASE_DRIVER || "neon";
+  if (!databaseDrivers.includes(driver as DatabaseDriver)) {
+    throw new Error(`Unknown DATABASE_DRIVER "${driver}", expected one of ${databaseDrivers.join(", ")}`);
+  }
+  if (!process.env.DATABASE_URL && driver !== "pglite") {
+    throw new Error("DATABASE_URL must be set to use the postgres storage backend");
+  }
+
+  db = createDb(driver as DatabaseDriver, process.env.DATABASE_URL || undefined);
+  return db;
+}
@@ -0,0 +1,85 @@
+import { execFileSync } from "child_process";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import {
+  acceptedFiles,
+  acceptedReplacements,
+  applyAcceptedHunks,
+  countHunks,
+  createFilePatch,
+  createPatches,
+  generatePatch,
+} from "./diff";
+
+const original = Array.from({ length: 20 }, (_, index) => `line ${index + 1}`).join("\n") + "\n";
+// Two changes far enough apart to be separate hunks
+const refactored = original.replace("line 2\n", "LINE 2\n").replace("line 18\n", "LINE 18\nextra\n");
+
+const file = { file: "src/a.js", original, refactored };
+
+describe("createFilePatch", () => {
+  it("returns null for an unchanged file", () => {
+    expect(createFilePatch("a.js", original, original)).toBeNull();
+  });
+
+  it("counts additions and deletions", () => {
+    const patch = createFilePatch("src/a.js", original, refactored)!;
+
+    expect(patch).toMatchObject({ file: "src/a.js", additions: 3, deletions: 2 });
+    expect(patch.diff.split("\n").slice(0, 3)).toEqual([
+      "diff --git a/src/a.js b/src/a.js",
+      "--- a/src/a.js",
+      "+++ b/src/a.js",
+    ]);
+  });
+
+  it("produces patches git apply accepts, including files created from empty", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "diff-test-"));
+    try {
+      await fs.mkdir(path.join(dir, "src"));
+      await fs.writeFile(path.join(dir, "src/a.js"), original);
+      await fs.writeFile(path.join(dir, "empty.js"), "");
+      const patch = generatePatch(
+        createPatches([file, { file: "empty.js", original: "", refactored: "first\n" }])
+      );
+      await fs.writeFile(path.join(dir, "changes.patch"), patch);
+
+      execFileSync("git", ["apply", "changes.patch"], { cwd: dir });
+
+      expect(await fs.readFile(path.join(dir, "src/a.js"), "utf-8")).toBe(refactored);
+      expect(await fs.readFile(path.join(dir, "empty.js"), "utf-8")).toBe("first\n");
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("hunk decisions", () => {
+  it("counts the hunks of a refactored file", () => {
+    expect(countHunks(file)).toBe(2);
+    expect(countHunks({ ...file, refactored: original })).toBe(0);
+  });
+
+  it("reverts rejected hunks and keeps accepted ones", () => {
+    expect(applyAcceptedHunks(file)).toBe(refactored);
+    expect(applyAcceptedHunks({ ...file, rejectedHunks: [0] })).toBe(
+      original.replace("line 18\n", "LINE 18\nextra\n")
+    );
+    expect(applyAcceptedHunks({ ...file, rejectedHunks: [1] })).toBe(original.replace("line 2\n", "LINE 2\n"));
+    expect(applyAcceptedHunks({ ...file, rejectedHunks: [0, 1] })).toBe(original);
+  });
+
+  it("applies decisions to every file for downloads", () => {
+    const [accepted] = acceptedFiles([{ ...file, rejectedHunks: [0, 1] }]);
+    expect(accepted.refactored).toBe(original);
+  });
+
+  it("describes accepted hunks as replacements of original lines", () => {
+    expect(acceptedReplacements({ ...file, rejectedHunks: [1] })).toEqual([
+      { startLine: 1, endLine: 5, text: "line 1\nLINE 2\nline 3\nline 4\nline 5" },
+    ]);
+    expect(acceptedReplacements({ ...file, rejectedHunks: [0, 1] })).toEqual([]);
+  });
+});
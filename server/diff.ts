@@ -0,0 +1,93 @@
+import { applyPatch } from "diff";
+import { fileHunks, hunkHeader } from "@shared/diff";
+import type { AnalysisResult, FilePatch } from "@shared/schema";
+
+type RefactoredFile = NonNullable<AnalysisResult["refactoredFiles"]>[number];
+
+export function countHunks(file: RefactoredFile): number {
+  if (file.original === file.refactored) return 0;
+  return fileHunks(file.file, file.original, file.refactored).hunks.length;
+}
+
+// The refactored content with every rejected hunk left as it was originally
+export function applyAcceptedHunks(file: RefactoredFile): string {
+  const rejected = new Set(file.rejectedHunks ?? []);
+  if (rejected.size === 0) return file.refactored;
+
+  const patch = fileHunks(file.file, file.original, file.refactored);
+  const accepted = patch.hunks.filter((_hunk, index) => !rejected.has(index));
+  if (accepted.length === 0) return file.original;
+
+  const applied = applyPatch(file.original, { ...patch, hunks: accepted });
+  if (applied === false) {
+    throw new Error(`Failed to apply accepted hunks to ${file.file}`);
+  }
+  return applied;
+}
+
+// Refactored files as they should be downloaded, with rejected hunks reverted
+export function acceptedFiles(files: RefactoredFile[]): RefactoredFile[] {
+  return files.map((file) => ({ ...file, refactored: applyAcceptedHunks(file) }));
+}
+
+// Lines startLine..endLine (1-based, inclusive) of the original file are
+// replaced by `text`, which has no trailing newline
+export interface LineReplacement {
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+// One replacement per accepted hunk that changes existing lines. Pure
+// insertions are left out since they cannot cover a reported line.
+export function acceptedReplacements(file: RefactoredFile): LineReplacement[] {
+  const refactored = applyAcceptedHunks(file);
+  if (refactored === file.original) return [];
+
+  return fileHunks(file.file, file.original, refactored)
+    .hunks.filter((hunk) => hunk.oldLines > 0)
+    .map((hunk) => ({
+      startLine: hunk.oldStart,
+      endLine: hunk.oldStart + hunk.oldLines - 1,
+      text: hunk.lines
+        .filter((line) => line.startsWith(" ") || line.startsWith("+"))
+        .map((line) => line.slice(1))
+        .join("\n"),
+    }));
+}
+
+// Unified diff of one file in the format `git apply` expects, or null when the
+// refactoring left the file unchanged
+export function createFilePatch(file: string, original: string, refactored: string): FilePatch | null {
+  if (original === refactored) return null;
+
+  const { hunks } = fileHunks(file, original, refactored);
+  if (hunks.length === 0) return null;
+
+  const lines = [`diff --git a/${file} b/${file}`, `--- a/${file}`, `+++ b/${file}`];
+  let additions = 0;
+  let deletions = 0;
+
+  for (const hunk of hunks) {
+    lines.push(hunkHeader(hunk));
+
+    for (const line of hunk.lines) {
+      if (line.startsWith("+")) additions++;
+      else if (line.startsWith("-")) deletions++;
+      lines.push(line);
+    }
+  }
+
+  return { file, diff: lines.join("\n") + "\n", additions, deletions };
+}
+
+export function createPatches(
+  files: Array<{ file: string; original: string; refactored: string }>
+): FilePatch[] {
+  return files.flatMap(({ file, original, refactored }) => createFilePatch(file, original, refactored) ?? []);
+}
+
+// Concatenate per-file diffs into a single .patch
+export function generatePatch(patches: FilePatch[]): string {
+  return patches.map((patch) => patch.diff).join("");
+}
@@ -0,0 +1,185 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import type { RepoConfig } from "@shared/schema";
+import { discoverFiles, type DiscoveryOptions } from "./discovery";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "scripto-discovery-"));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+async function writeFiles(files: Record<string, string>) {
+  for (const [file, content] of Object.entries(files)) {
+    await fs.mkdir(path.join(dir, path.dirname(file)), { recursive: true });
+    await fs.writeFile(path.join(dir, file), content);
+  }
+}
+
+async function discover(options: Partial<DiscoveryOptions> = {}) {
+  const { files, skipped } = await discoverFiles(dir, { extensions: [".js", ".py"], config: null, ...options });
+  return {
+    files: files.map((file) => path.relative(dir, file).split(path.sep).join("/")).sort(),
+    skipped: skipped.map((entry) => ({ ...entry, file: entry.file.split(path.sep).join("/") })),
+  };
+}
+
+const skippedFile = (skipped: Awaited<ReturnType<typeof discover>>["skipped"], file: string) =>
+  skipped.find((entry) => entry.file === file);
+
+describe("discoverFiles", () => {
+  it("finds files with known extensions, leaving out dotfiles and dependency directories", async () => {
+    await writeFiles({
+      "src/app.js": "1",
+      "tool.py": "1",
+      "README.md": "1",
+      ".eslintrc.js": "1",
+      ".github/release.js": "1",
+      "node_modules/dep/index.js": "1",
+      "lib/__pycache__/mod.py": "1",
+      "venv/lib/site.py": "1",
+    });
+
+    const { files, skipped } = await discover();
+
+    expect(files).toEqual(["src/app.js", "tool.py"]);
+    expect(skipped).toEqual([]);
+  });
+
+  it("applies nested .gitignore files, letting a deeper one re-include", async () => {
+    await writeFiles({
+      ".gitignore": "build/\n*.gen.js\n",
+      "build/out.js": "1",
+      "src/a.js": "1",
+      "src/a.gen.js": "1",
+      "src/keep/.gitignore": "!*.gen.js\n",
+      "src/keep/b.gen.js": "1",
+      "src/local/.gitignore": "/scratch.js\n",
+      "src/local/scratch.js": "1",
+      "src/local/deep/scratch.js": "1",
+    });
+
+    const { files, skipped } = await discover();
+
+    expect(files).toEqual(["src/a.js", "src/keep/b.gen.js", "src/local/deep/scratch.js"]);
+    expect(skipped).toEqual(
+      expect.arrayContaining([
+        { file: "build/", reason: "gitignore" },
+        { file: "src/a.gen.js", reason: "gitignore" },
+        { file: "src/local/scratch.js", reason: "gitignore" },
+      ])
+    );
+    expect(skipped).toHaveLength(3);
+  });
+
+  it("applies the root's .gitignore files and globs to a subdirectory", async () => {
+    await writeFiles({
+      ".gitignore": "*.gen.js\nservices/api/tmp/\n",
+      "services/.gitignore": "/api/scratch.js\n",
+      "services/api/a.js": "1",
+      "services/api/a.gen.js": "1",
+      "services/api/scratch.js": "1",
+      "services/api/tmp/t.js": "1",
+      "services/api/vendor/lib.js": "1",
+      "web/w.js": "1",
+    });
+    const sub = path.join(dir, "services", "api");
+
+    const { files, skipped } = await discoverFiles(sub, {
+      extensions: [".js"],
+      config: { exclude: ["services/api/vendor/**"] },
+      root: dir,
+    });
+
+    expect(files).toEqual([path.join(sub, "a.js")]);
+    expect(skipped).toEqual(
+      expect.arrayContaining([
+        { file: "a.gen.js", reason: "gitignore" },
+        { file: "scratch.js", reason: "gitignore" },
+        { file: `tmp${path.sep}`, reason: "gitignore" },
+        { file: path.join("vendor", "lib.js"), reason: "excluded", detail: "matches services/api/vendor/**" },
+      ])
+    );
+    expect(skipped).toHaveLength(4);
+  });
+
+  it("applies include and exclude globs from the config and the request", async () => {
+    await writeFiles({
+      "src/a.js": "1",
+      "src/vendor/lib.js": "1",
+      "src/legacy.js": "1",
+      "scripts/tool.py": "1",
+    });
+    const config: RepoConfig = { include: ["src/**"], exclude: ["src/vendor/**"] };
+
+    const { files, skipped } = await discover({ config, exclude: ["legacy.js"] });
+
+    expect(files).toEqual(["src/a.js"]);
+    expect(skippedFile(skipped, "scripts/tool.py")).toEqual({
+      file: "scripts/tool.py",
+      reason: "excluded",
+      detail: "not matched by the include globs",
+    });
+    expect(skippedFile(skipped, "src/vendor/lib.js")?.detail).toBe("matches src/vendor/**");
+    expect(skippedFile(skipped, "src/legacy.js")?.detail).toBe("matches legacy.js");
+  });
+
+  it("treats an empty include list as no restriction", async () => {
+    await writeFiles({ "src/a.js": "1", "tool.py": "1" });
+
+    const { files } = await discover({ config: { include: [] }, include: [] });
+
+    expect(files).toEqual(["src/a.js", "tool.py"]);
+  });
+
+  it("skips files over max_file_size", async () => {
+    await writeFiles({ "small.js": "x".repeat(10), "large.js": "x".repeat(11) });
+
+    const { files, skipped } = await discover({ config: { max_file_size: 10 } });
+
+    expect(files).toEqual(["small.js"]);
+    expect(skipped).toEqual([{ file: "large.js", reason: "too_large", detail: "11 bytes, limit 10" }]);
+  });
+
+  it("skips generated files by name and by header", async () => {
+    await writeFiles({
+      "api_pb2.py": "x = 1\n",
+      "client.generated.js": "x\n",
+      "schema.js": "// Code generated by protoc-gen-js. DO NOT EDIT.\nexport {};\n",
+      "late.js": "1\n2\n3\n4\n5\n// @generated\n",
+    });
+
+    const { files, skipped } = await discover();
+
+    expect(files).toEqual(["late.js"]);
+    expect(skippedFile(skipped, "api_pb2.py")).toMatchObject({ reason: "generated", detail: "generated file name" });
+    expect(skippedFile(skipped, "client.generated.js")).toMatchObject({ reason: "generated" });
+    expect(skippedFile(skipped, "schema.js")).toMatchObject({
+      reason: "generated",
+      detail: '"Code generated by" header',
+    });
+  });
+
+  it("skips minified files by name and by line length", async () => {
+    await writeFiles({
+      "vendor.min.js": "x",
+      "bundle.js": `${"a+".repeat(600)}\n${"b+".repeat(600)}`,
+      "wide.js": "x".repeat(300),
+    });
+
+    const { files, skipped } = await discover();
+
+    expect(files).toEqual(["wide.js"]);
+    expect(skippedFile(skipped, "vendor.min.js")).toMatchObject({ reason: "minified", detail: "minified file name" });
+    expect(skippedFile(skipped, "bundle.js")).toMatchObject({
+      reason: "minified",
+      detail: "2 lines for 2401 characters",
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import ignore, { type Ignore } from "ignore";
+import type { RepoConfig, SkippedFile } from "@shared/schema";
+import { matchesGlob, matchingGlob } from "./config";
+
+// Never analyzed and not worth reporting, whatever .gitignore says
+const ALWAYS_SKIPPED = new Set(["node_modules", "__pycache__", "venv"]);
+
+// File names of protobuf, gRPC and other codegen output
+const GENERATED_NAME = /(_pb2(_grpc)?\.py|_pb\.(js|ts)|\.pb\.(js|ts)|\.generated\.\w+)$/;
+// Header comments that code generators write; only the first lines are checked
+const GENERATED_MARKER = /@generated|code generated by|do not edit|auto-?generated|generated by the protocol buffer compiler/i;
+const GENERATED_HEADER_LINES = 5;
+
+const MINIFIED_NAME = /[.-]min\.[cm]?js$/;
+// Minified bundles keep a whole file on a few very long lines
+const MINIFIED_MIN_SIZE = 1024;
+const MINIFIED_AVERAGE_LINE = 250;
+
+export interface DiscoveryOptions {
+  extensions: string[];
+  config: RepoConfig | null;
+  // Repository root when the analyzed directory is below it. Its .gitignore
+  // files down to the directory apply, and globs match paths relative to it.
+  root?: string;
+  // Globs from the request, applied on top of the config's
+  include?: string[];
+  exclude?: string[];
+}
+
+export interface Discovery {
+  // Absolute paths of the files to analyze
+  files: string[];
+  skipped: SkippedFile[];
+}
+
+interface GitignoreRules {
+  // Directory of the .gitignore, relative to the repository root with "/" separators
+  base: string;
+  rules: Ignore;
+}
+
+function toPosix(relativePath: string): string {
+  return relativePath.split(path.sep).join("/");
+}
+
+async function readGitignore(dir: string, base: string): Promise<GitignoreRules | null> {
+  try {
+    const content = await fs.readFile(path.join(dir, ".gitignore"), "utf-8");
+    return { base, rules: ignore().add(content) };
+  } catch {
+    return null;
+  }
+}
+
+// Deeper .gitignore files can re-include what a parent ignored, so the last
+// matching rule along the chain decides
+function isGitignored(relativePath: string, isDirectory: boolean, chain: GitignoreRules[]): boolean {
+  let ignored = false;
+  for (const { base, rules } of chain) {
+    const local = base ? path.posix.relative(base, relativePath) : relativePath;
+    const result = rules.test(isDirectory ? `${local}/` : local);
+    if (result.ignored) ignored = true;
+    else if (result.unignored) ignored = false;
+  }
+  return ignored;
+}
+
+function globExclusion(relativePath: string, options: DiscoveryOptions): string | null {
+  // An empty include list means no restriction, like an unset one
+  for (const include of [options.config?.include, options.include]) {
+    if (include?.length && !matchesGlob(relativePath, include)) {
+      return "not matched by the include globs";
+    }
+  }
+  for (const exclude of [options.config?.exclude, options.exclude]) {
+    const pattern = matchingGlob(relativePath, exclude);
+    if (pattern) return `matches ${pattern}`;
+  }
+  return null;
+}
+
+function contentSkip(relativePath: string, content: string): Pick<SkippedFile, "reason" | "detail"> | null {
+  const name = path.basename(relativePath);
+  if (GENERATED_NAME.test(name)) {
+    return { reason: "generated", detail: "generated file name" };
+  }
+  const header = content.split("\n", GENERATED_HEADER_LINES).join("\n");
+  const marker = GENERATED_MARKER.exec(header);
+  if (marker) {
+    return { reason: "generated", detail: `"${marker[0]}" header` };
+  }
+
+  if (MINIFIED_NAME.test(name)) {
+    return { reason: "minified", detail: "minified file name" };
+  }
+  const lineCount = content.split("\n").length;
+  if (content.length >= MINIFIED_MIN_SIZE && content.length / lineCount > MINIFIED_AVERAGE_LINE) {
+    return { reason: "minified", detail: `${lineCount} lines for ${content.length} characters` };
+  }
+  return null;
+}
+
+// The .gitignore files of the directories from `root` down to, but not
+// including, `dir`
+async function parentGitignores(root: string, dir: string): Promise<GitignoreRules[]> {
+  const chain: GitignoreRules[] = [];
+  const parts = path.relative(root, dir).split(path.sep).filter(Boolean);
+  for (let depth = 0; depth < parts.length; depth++) {
+    const base = parts.slice(0, depth);
+    const gitignore = await readGitignore(path.join(root, ...base), base.join("/"));
+    if (gitignore) chain.push(gitignore);
+  }
+  return chain;
+}
+
+// Find the source files to analyze under `dir`. Everything left out apart
+// from dotfiles, dependencies and files no analyzer handles is reported with
+// the reason. Reported paths are relative to `dir`.
+export async function discoverFiles(dir: string, options: DiscoveryOptions): Promise<Discovery> {
+  const files: string[] = [];
+  const skipped: SkippedFile[] = [];
+  const maxSize = options.config?.max_file_size;
+  const root = options.root ?? dir;
+
+  async function walk(currentDir: string, chain: GitignoreRules[]) {
+    const base = toPosix(path.relative(root, currentDir));
+    const gitignore = await readGitignore(currentDir, base);
+    const rules = gitignore ? [...chain, gitignore] : chain;
+
+    let entries;
+    try {
+      entries = await fs.readdir(currentDir, { withFileTypes: true });
+    } catch (error) {
+      console.error(`Error walking directory ${currentDir}:`, error);
+      return;
+    }
+
+    for (const entry of entries) {
+      if (entry.name.startsWith(".") || ALWAYS_SKIPPED.has(entry.name)) {
+        continue;
+      }
+
+      const fullPath = path.join(currentDir, entry.name);
+      const relativePath = path.relative(dir, fullPath);
+      const rootPath = toPosix(path.relative(root, fullPath));
+
+      if (entry.isDirectory()) {
+        if (isGitignored(rootPath, true, rules)) {
+          skipped.push({ file: `${relativePath}${path.sep}`, reason: "gitignore" });
+        } else {
+          await walk(fullPath, rules);
+        }
+        continue;
+      }
+
+      if (!entry.isFile() || !options.extensions.includes(path.extname(entry.name).toLowerCase())) {
+        continue;
+      }
+
+      if (isGitignored(rootPath, false, rules)) {
+        skipped.push({ file: relativePath, reason: "gitignore" });
+        continue;
+      }
+
+      const exclusion = globExclusion(rootPath, options);
+      if (exclusion) {
+        skipped.push({ file: relativePath, reason: "excluded", detail: exclusion });
+        continue;
+      }
+
+      try {
+        const { size } = await fs.stat(fullPath);
+        if (maxSize !== undefined && size > maxSize) {
+          skipped.push({ file: relativePath, reason: "too_large", detail: `${size} bytes, limit ${maxSize}` });
+          continue;
+        }
+
+        const skip = contentSkip(relativePath, await fs.readFile(fullPath, "utf-8"));
+        if (skip) {
+          skipped.push({ file: relativePath, ...skip });
+          continue;
+        }
+      } catch (error) {
+        console.error(`Error reading file ${fullPath}:`, error);
+        continue;
+      }
+
+      files.push(fullPath);
+    }
+  }
+
+  await walk(dir, await parentGitignores(root, dir));
+  return { files, skipped };
+}
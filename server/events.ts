@@ -0,0 +1,49 @@
+import { EventEmitter } from "events";
+import { isTerminalStatus, type AnalysisJob, type JobProgress } from "@shared/schema";
+
+export type JobEvent =
+  | { type: "progress"; data: JobProgress }
+  | { type: "status"; data: { status: AnalysisJob["status"] } }
+  | { type: "queue"; data: { position: number } };
+
+export type JobEventListener = (event: JobEvent) => void;
+
+// In-process fan-out of job progress to SSE subscribers. Progress is transient
+// and only kept until the job reaches a terminal status.
+class JobEvents {
+  private emitter = new EventEmitter();
+  private progress = new Map<string, JobProgress>();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  publishProgress(jobId: string, progress: JobProgress): void {
+    this.progress.set(jobId, progress);
+    this.emitter.emit(jobId, { type: "progress", data: progress } satisfies JobEvent);
+  }
+
+  publishQueuePosition(jobId: string, position: number): void {
+    this.emitter.emit(jobId, { type: "queue", data: { position } } satisfies JobEvent);
+  }
+
+  publishStatus(jobId: string, status: AnalysisJob["status"]): void {
+    if (isTerminalStatus(status)) {
+      this.progress.delete(jobId);
+    }
+    this.emitter.emit(jobId, { type: "status", data: { status } } satisfies JobEvent);
+  }
+
+  getProgress(jobId: string): JobProgress | undefined {
+    return this.progress.get(jobId);
+  }
+
+  subscribe(jobId: string, listener: JobEventListener): () => void {
+    this.emitter.on(jobId, listener);
+    return () => {
+      this.emitter.off(jobId, listener);
+    };
+  }
+}
+
+export const jobEvents = new JobEvents();
@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { authFailureMessage, gitAuth, isHttpsUrl, isSshUrl, repoHost, resolveCredentials } from "./git-auth";
+
+describe("repository URLs", () => {
+  it("recognizes SSH and HTTPS URLs", () => {
+    expect(isSshUrl("git@github.com:org/repo.git")).toBe(true);
+    expect(isSshUrl("ssh://git@gitlab.internal:2222/org/repo.git")).toBe(true);
+    expect(isSshUrl("https://github.com/org/repo")).toBe(false);
+
+    expect(isHttpsUrl("https://github.com/org/repo")).toBe(true);
+    expect(isHttpsUrl("HTTPS://github.com/org/repo")).toBe(true);
+    expect(isHttpsUrl("http://github.com/org/repo")).toBe(false);
+    expect(isHttpsUrl("git@github.com:org/repo.git")).toBe(false);
+  });
+
+  it("extracts the lowercased host", () => {
+    expect(repoHost("git@GitHub.com:org/repo.git")).toBe("github.com");
+    expect(repoHost("https://GitLab.example.com:8443/org/repo")).toBe("gitlab.example.com");
+    expect(repoHost("ssh://git@gitlab.internal/org/repo.git")).toBe("gitlab.internal");
+    expect(repoHost("not a url")).toBeUndefined();
+  });
+});
+
+describe("resolveCredentials", () => {
+  let dir: string;
+
+  // Each test imports a fresh copy of the module so it reads the stubbed env
+  beforeEach(async () => {
+    vi.resetModules();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "git-credentials-"));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function withCredentialsFile(content: unknown) {
+    const file = path.join(dir, "credentials.json");
+    await fs.writeFile(file, typeof content === "string" ? content : JSON.stringify(content));
+    vi.stubEnv("GIT_CREDENTIALS_FILE", file);
+    return import("./git-auth");
+  }
+
+  it("prefers the request's credentials over the host's", async () => {
+    const gitAuthModule = await withCredentialsFile({ "github.com": { token: "server-token" } });
+    const requested = { token: "request-token" };
+
+    expect(gitAuthModule.resolveCredentials("https://github.com/org/repo", requested)).toBe(requested);
+    expect(gitAuthModule.resolveCredentials("https://GitHub.com/org/repo")).toEqual({ token: "server-token" });
+    expect(gitAuthModule.resolveCredentials("https://gitlab.com/org/repo")).toBeNull();
+  });
+
+  it("does not use a host's token for a plain http:// URL", async () => {
+    const gitAuthModule = await withCredentialsFile({ "git.example.com": { token: "server-token" } });
+
+    expect(gitAuthModule.resolveCredentials("http://git.example.com/org/repo")).toBeNull();
+  });
+
+  it("reads a host's SSH key file", async () => {
+    const keyFile = path.join(dir, "id");
+    await fs.writeFile(keyFile, "PRIVATE KEY\n");
+    const gitAuthModule = await withCredentialsFile({ "gitlab.internal": { ssh_key_file: keyFile } });
+
+    expect(gitAuthModule.resolveCredentials("git@gitlab.internal:org/repo.git")).toMatchObject({
+      sshKey: "PRIVATE KEY\n",
+    });
+  });
+
+  it("rejects a file that is not JSON", async () => {
+    await expect(withCredentialsFile("{ secret")).rejects.toThrow(/is not a readable JSON file/);
+  });
+
+  it("names invalid entries without echoing the file's content", async () => {
+    const error = await withCredentialsFile({ "github.com": { token: "secret", ssh_key_file: "/key" } }).catch(
+      (error: Error) => error
+    );
+
+    expect((error as Error).message).toMatch(/github\.com: Set either token or ssh_key_file/);
+    expect((error as Error).message).not.toMatch(/secret/);
+  });
+
+  it("has no host credentials without a file", () => {
+    expect(resolveCredentials("https://github.com/org/repo")).toBeNull();
+  });
+});
+
+describe("gitAuth", () => {
+  it("disables prompts and adds nothing without credentials", async () => {
+    const auth = await gitAuth("https://github.com/org/repo", null);
+
+    expect(auth.env).toEqual({ ...process.env, GIT_TERMINAL_PROMPT: "0" });
+  });
+
+  it("sends a token as a Basic authorization header", async () => {
+    const auth = await gitAuth("https://gitlab.com/org/repo", { token: "glpat", username: "oauth2" });
+
+    expect(auth.env.GIT_CONFIG_COUNT).toBe("1");
+    expect(auth.env.GIT_CONFIG_KEY_0).toBe("http.extraHeader");
+    expect(auth.env.GIT_CONFIG_VALUE_0).toBe(`Authorization: Basic ${Buffer.from("oauth2:glpat").toString("base64")}`);
+  });
+
+  it("refuses to send a token to a plain http:// URL", async () => {
+    await expect(gitAuth("http://git.example.com/org/repo", { token: "secret" })).rejects.toThrow(/not https:\/\//);
+  });
+
+  it("writes an SSH key to a private file and removes it on cleanup", async () => {
+    const auth = await gitAuth("git@github.com:org/repo.git", { sshKey: "PRIVATE KEY\r\nLINE\r\n" });
+    const keyFile = /-i '([^']+)'/.exec(auth.env.GIT_SSH_COMMAND ?? "")?.[1];
+
+    expect(keyFile).toBeDefined();
+    expect(await fs.readFile(keyFile!, "utf-8")).toBe("PRIVATE KEY\nLINE\n");
+    if (process.platform !== "win32") {
+      expect((await fs.stat(keyFile!)).mode & 0o777).toBe(0o600);
+    }
+
+    await auth.cleanup();
+    await expect(fs.stat(path.dirname(keyFile!))).rejects.toThrow(/ENOENT/);
+  });
+});
+
+describe("authFailureMessage", () => {
+  const url = "https://github.com/org/repo";
+
+  it("says whether a credential was missing or rejected", () => {
+    const stderr = "fatal: Authentication failed for 'https://github.com/org/repo/'";
+
+    expect(authFailureMessage(stderr, url, null)).toMatch(/^github\.com refused access/);
+    expect(authFailureMessage(stderr, url, { token: "t" })).toMatch(/rejected the access token/);
+    expect(authFailureMessage("Permission denied (publickey).", url, { sshKey: "k" })).toMatch(
+      /rejected the SSH deploy key/
+    );
+  });
+
+  it("reports host key failures and leaves other errors alone", () => {
+    expect(authFailureMessage("Host key verification failed.", url, null)).toMatch(/GIT_KNOWN_HOSTS_FILE/);
+    expect(authFailureMessage("ssh: Could not resolve host: github.com", url, null)).toBeNull();
+    expect(authFailureMessage("fatal: couldn't find remote ref main", url, null)).toBeNull();
+  });
+});
@@ -0,0 +1,172 @@
+import { readFileSync } from "fs";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { z } from "zod";
+
+// Credentials for cloning one repository. They only live in memory while the
+// job runs: they are never logged, never stored with the job, and an SSH key
+// is only on disk for as long as git needs it.
+export interface GitCredentials {
+  token?: string;
+  // Sent with the token over HTTPS; most hosts accept any non-empty name
+  username?: string;
+  sshKey?: string;
+}
+
+const DEFAULT_TOKEN_USERNAME = "x-access-token";
+
+// user@host:path, the scp-like syntax git accepts for SSH
+const SCP_LIKE_URL = /^[\w.-]+@([\w.-]+):(?!\/\/)/;
+
+export function isSshUrl(repoUrl: string): boolean {
+  return repoUrl.startsWith("ssh://") || SCP_LIKE_URL.test(repoUrl);
+}
+
+// Tokens are only ever sent over HTTPS, never to a plain http:// URL
+export function isHttpsUrl(repoUrl: string): boolean {
+  return /^https:\/\//i.test(repoUrl);
+}
+
+export function repoHost(repoUrl: string): string | undefined {
+  const scp = SCP_LIKE_URL.exec(repoUrl);
+  if (scp) return scp[1].toLowerCase();
+  try {
+    return new URL(repoUrl).hostname.toLowerCase() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+const hostCredentialsSchema = z.record(
+  z.string(),
+  z
+    .object({
+      token: z.string().min(1).optional(),
+      username: z.string().min(1).optional(),
+      ssh_key_file: z.string().min(1).optional(),
+    })
+    .strict()
+    .refine((entry) => Boolean(entry.token) !== Boolean(entry.ssh_key_file), {
+      message: "Set either token or ssh_key_file",
+    })
+);
+
+// GIT_CREDENTIALS_FILE is validated at startup like the other settings.
+// Errors name the problem but never echo the file's content.
+function loadHostCredentials(): Map<string, GitCredentials> {
+  const file = process.env.GIT_CREDENTIALS_FILE;
+  if (!file) return new Map();
+
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(file, "utf-8"));
+  } catch {
+    throw new Error(`GIT_CREDENTIALS_FILE ${file} is not a readable JSON file`);
+  }
+
+  const parsed = hostCredentialsSchema.safeParse(json);
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+    throw new Error(`Invalid GIT_CREDENTIALS_FILE ${file}: ${problems.join("; ")}`);
+  }
+
+  return new Map(
+    Object.entries(parsed.data).map(([host, entry]) => [
+      host.toLowerCase(),
+      {
+        token: entry.token,
+        username: entry.username,
+        sshKey: entry.ssh_key_file ? readFileSync(entry.ssh_key_file, "utf-8") : undefined,
+      },
+    ])
+  );
+}
+
+const hostCredentials = loadHostCredentials();
+
+// Credentials sent with the request win over the server's for the host. The
+// host's token is left out for URLs it would travel over unencrypted.
+export function resolveCredentials(repoUrl: string, requested?: GitCredentials): GitCredentials | null {
+  if (requested?.token || requested?.sshKey) return requested;
+  const host = repoHost(repoUrl);
+  const credentials = host ? hostCredentials.get(host) : undefined;
+  if (!credentials || (credentials.token && !isHttpsUrl(repoUrl))) return null;
+  return credentials;
+}
+
+export interface GitAuth {
+  env: NodeJS.ProcessEnv;
+  // Removes the temporary SSH key, if any
+  cleanup: () => Promise<void>;
+}
+
+// Environment for git commands cloning `repoUrl` with `credentials`. The token
+// travels in an HTTP header set through GIT_CONFIG_* variables, so it never
+// shows up in a URL, on a command line or in .git/config.
+export async function gitAuth(repoUrl: string, credentials: GitCredentials | null): Promise<GitAuth> {
+  if (credentials?.token && !isHttpsUrl(repoUrl)) {
+    throw new Error("Refusing to send an access token to a repository URL that is not https://");
+  }
+
+  // Fail right away instead of waiting for a password prompt
+  const env: NodeJS.ProcessEnv = { ...process.env, GIT_TERMINAL_PROMPT: "0" };
+  let keyDir: string | undefined;
+
+  if (credentials?.token) {
+    const basic = Buffer.from(`${credentials.username ?? DEFAULT_TOKEN_USERNAME}:${credentials.token}`).toString(
+      "base64"
+    );
+    env.GIT_CONFIG_COUNT = "1";
+    env.GIT_CONFIG_KEY_0 = "http.extraHeader";
+    env.GIT_CONFIG_VALUE_0 = `Authorization: Basic ${basic}`;
+  }
+
+  if (credentials?.sshKey) {
+    // Outside the clone directory so the key can never end up in the analysis
+    keyDir = await fs.mkdtemp(path.join(os.tmpdir(), "git-key-"));
+    const keyFile = path.join(keyDir, "id");
+    // ssh rejects keys without a final newline or with CRLF line endings
+    await fs.writeFile(keyFile, `${credentials.sshKey.replace(/\r\n/g, "\n").trim()}\n`, { mode: 0o600 });
+
+    const knownHosts = process.env.GIT_KNOWN_HOSTS_FILE;
+    env.GIT_SSH_COMMAND = [
+      "ssh",
+      `-i '${keyFile}'`,
+      "-o IdentitiesOnly=yes",
+      "-o BatchMode=yes",
+      knownHosts ? `-o UserKnownHostsFile='${knownHosts}' -o StrictHostKeyChecking=yes` : "-o StrictHostKeyChecking=accept-new",
+    ].join(" ");
+  }
+
+  return {
+    env,
+    cleanup: async () => {
+      if (keyDir) await fs.rm(keyDir, { recursive: true, force: true });
+    },
+  };
+}
+
+// Hosts answer a missing or wrong credential in several ways; GitHub even
+// reports private repositories as not found
+const AUTH_FAILURE =
+  /authentication failed|could not read (username|password)|terminal prompts disabled|permission denied \(publickey|repository not found|could not read from remote repository|returned error: 40[13]/i;
+
+const CONNECTION_FAILURE = /could not resolve host|connection refused|connection timed out|network is unreachable/i;
+
+// A message for the user when git's output shows an authentication problem
+export function authFailureMessage(stderr: string, repoUrl: string, credentials: GitCredentials | null): string | null {
+  const host = repoHost(repoUrl) ?? "the repository host";
+  if (/host key verification failed/i.test(stderr)) {
+    return `Host key verification failed for ${host}. Add its key to GIT_KNOWN_HOSTS_FILE on the server.`;
+  }
+  // SSH reports these with the same "could not read from remote repository"
+  if (CONNECTION_FAILURE.test(stderr)) return null;
+  if (!AUTH_FAILURE.test(stderr)) return null;
+
+  if (!credentials) {
+    return `${host} refused access. The repository does not exist or is private; private repositories need an access token or SSH deploy key.`;
+  }
+  const credential = credentials.sshKey ? "SSH deploy key" : "access token";
+  return `${host} rejected the ${credential}. Check that it is valid and can read the repository, and that the repository exists.`;
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import type { AnalysisResult } from "@shared/schema";
+import { generateHTMLReport } from "./html-report";
+
+const result: AnalysisResult = {
+  request_id: "req-1",
+  status: "completed",
+  summary: { languages: ["javascript"], total_files_analyzed: 1, issues_count: { critical: 1, major: 0, minor: 0 } },
+  issues: [{ severity: "critical", file: "a.js", line: 2, message: "Use of <eval>", rule: "no-eval" }],
+  refactoredFiles: [{ file: "a.js", original: "const a = 1;\neval(x);\n", refactored: "const a = 1;\nrun(x);\n" }],
+};
+
+describe("generateHTMLReport", () => {
+  it("renders issues with a source snippet and the accepted diff", () => {
+    const html = generateHTMLReport(result);
+
+    expect(html).toContain("Use of &lt;eval&gt;");
+    expect(html).toContain('<tr class="flagged"><td class="ln">2</td><td>eval(x);</td></tr>');
+    expect(html).toContain('<tr class="add"><td>+run(x);</td></tr>');
+  });
+
+  it("escapes values that results posted to the callback could smuggle in", () => {
+    const crafted = {
+      ...result,
+      issues: [
+        { ...result.issues![0], line: "<img src=x onerror=alert(1)>" },
+        { ...result.issues![0], severity: "<script>alert(1)</script>" },
+      ],
+    } as unknown as AnalysisResult;
+
+    const html = generateHTMLReport(crafted);
+    expect(html).not.toContain("<script>");
+    expect(html).not.toContain("<img");
+    expect(html).toContain("Line &lt;img src=x onerror=alert(1)&gt;");
+  });
+});
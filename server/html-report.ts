@@ -0,0 +1,219 @@
+import type { AnalysisResult } from "@shared/schema";
+import { acceptedFiles, createPatches } from "./diff";
+
+type Issue = NonNullable<AnalysisResult["issues"]>[number];
+
+const SNIPPET_CONTEXT = 2;
+const TOP_FILES = 10;
+
+const severities: Issue["severity"][] = ["critical", "major", "minor"];
+
+const severityColors: Record<Issue["severity"], string> = {
+  critical: "#dc2626",
+  major: "#d97706",
+  minor: "#2563eb",
+};
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Horizontal bar chart as inline SVG, so the report needs no scripts
+function barChart(rows: Array<{ label: string; value: number; color: string }>): string {
+  const max = Math.max(1, ...rows.map((row) => row.value));
+  const rowHeight = 28;
+  const labelWidth = 220;
+  const barWidth = 360;
+
+  const bars = rows
+    .map((row, index) => {
+      const y = index * rowHeight;
+      const width = Math.max(2, Math.round((row.value / max) * barWidth));
+      return `<text x="${labelWidth - 8}" y="${y + 18}" text-anchor="end">${escapeHtml(row.label)}</text>
+<rect x="${labelWidth}" y="${y + 5}" width="${width}" height="18" rx="3" fill="${row.color}"></rect>
+<text x="${labelWidth + width + 6}" y="${y + 18}">${escapeHtml(String(row.value))}</text>`;
+    })
+    .join("\n");
+
+  return `<svg class="chart" viewBox="0 0 ${labelWidth + barWidth + 60} ${rows.length * rowHeight}" role="img">${bars}</svg>`;
+}
+
+function snippet(source: string[] | undefined, line: number): string {
+  if (!source || line < 1 || line > source.length) return "";
+
+  const start = Math.max(1, line - SNIPPET_CONTEXT);
+  const end = Math.min(source.length, line + SNIPPET_CONTEXT);
+  const rows: string[] = [];
+  for (let number = start; number <= end; number++) {
+    rows.push(
+      `<tr${number === line ? ' class="flagged"' : ""}><td class="ln">${number}</td><td>${escapeHtml(source[number - 1])}</td></tr>`
+    );
+  }
+  return `<table class="code">${rows.join("")}</table>`;
+}
+
+function diffTable(diff: string): string {
+  const rows = diff
+    .split("\n")
+    // The file header lines repeat the path shown above the table
+    .filter((line) => line && !line.startsWith("diff --git") && !line.startsWith("---") && !line.startsWith("+++"))
+    .map((line) => {
+      let className = "";
+      if (line.startsWith("@@")) className = "hunk";
+      else if (line.startsWith("+")) className = "add";
+      else if (line.startsWith("-")) className = "del";
+      return `<tr${className ? ` class="${className}"` : ""}><td>${escapeHtml(line)}</td></tr>`;
+    });
+  return `<table class="code diff">${rows.join("")}</table>`;
+}
+
+const styles = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; margin: 0; background: #f8fafc; color: #0f172a; }
+main { max-width: 1100px; margin: 0 auto; padding: 32px 24px; }
+h1 { margin: 0 0 4px; font-size: 28px; }
+h2 { margin: 32px 0 12px; font-size: 20px; }
+h3 { margin: 0; font-size: 15px; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+.meta { color: #64748b; font-size: 14px; }
+.cards { display: grid; grid-template-columns: repeat(auto-fit, minmax(180px, 1fr)); gap: 12px; margin-top: 24px; }
+.card { background: #fff; border: 1px solid #e2e8f0; border-radius: 8px; padding: 16px; }
+.card .value { font-size: 28px; font-weight: 700; }
+.card .label { color: #64748b; font-size: 13px; }
+.chart { width: 100%; max-width: 640px; font-size: 13px; fill: #334155; }
+details { background: #fff; border: 1px solid #e2e8f0; border-radius: 8px; margin-bottom: 12px; }
+summary { cursor: pointer; padding: 12px 16px; display: flex; align-items: center; gap: 12px; }
+.file-body { padding: 0 16px 16px; }
+.issue { border-top: 1px solid #f1f5f9; padding: 12px 0; }
+.issue-title { display: flex; gap: 8px; align-items: baseline; }
+.badge { display: inline-block; border-radius: 4px; padding: 1px 6px; font-size: 12px; font-weight: 600; color: #fff; }
+.rule { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 12px; color: #64748b; }
+.suggestion { font-size: 13px; color: #334155; margin: 4px 0; }
+.code { width: 100%; border-collapse: collapse; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 12px; background: #f8fafc; border: 1px solid #e2e8f0; margin-top: 8px; }
+.code td { white-space: pre-wrap; word-break: break-all; padding: 1px 8px; }
+.code td.ln { width: 1%; white-space: nowrap; text-align: right; color: #94a3b8; user-select: none; }
+.code tr.flagged { background: #fef3c7; }
+.diff tr.add { background: #dcfce7; }
+.diff tr.del { background: #fee2e2; }
+.diff tr.hunk { background: #e2e8f0; color: #475569; }
+.empty { color: #64748b; }
+`;
+
+// Single-file HTML report with no external assets, scripts or fonts
+export function generateHTMLReport(result: AnalysisResult): string {
+  const issues = result.issues || [];
+  const refactoredFiles = result.refactoredFiles || [];
+  const counts = result.summary?.issues_count ?? {
+    critical: issues.filter((i) => i.severity === "critical").length,
+    major: issues.filter((i) => i.severity === "major").length,
+    minor: issues.filter((i) => i.severity === "minor").length,
+  };
+  const sources = new Map(refactoredFiles.map((file) => [file.file, file.original.split("\n")]));
+
+  const issuesByFile = new Map<string, Issue[]>();
+  for (const issue of issues) {
+    const fileIssues = issuesByFile.get(issue.file) ?? [];
+    fileIssues.push(issue);
+    issuesByFile.set(issue.file, fileIssues);
+  }
+  const files = Array.from(issuesByFile.entries()).sort(
+    ([a, aIssues], [b, bIssues]) => bIssues.length - aIssues.length || a.localeCompare(b)
+  );
+
+  const severityChart = barChart(
+    severities.map((severity) => ({
+      label: severity[0].toUpperCase() + severity.slice(1),
+      value: counts[severity],
+      color: severityColors[severity],
+    }))
+  );
+  const filesChart = files.length > 0
+    ? barChart(
+        files.slice(0, TOP_FILES).map(([file, fileIssues]) => ({
+          label: file.length > 32 ? `…${file.slice(-31)}` : file,
+          value: fileIssues.length,
+          color: "#64748b",
+        }))
+      )
+    : "";
+
+  const fileSections = files
+    .map(([file, fileIssues]) => {
+      const source = sources.get(file);
+      const grouped = severities
+        .flatMap((severity) => fileIssues.filter((issue) => issue.severity === severity))
+        .map(
+          (issue) => `<div class="issue">
+<div class="issue-title"><span class="badge" style="background:${escapeHtml(String(severityColors[issue.severity]))}">${escapeHtml(String(issue.severity))}</span>
+<strong>Line ${escapeHtml(String(issue.line))}</strong> ${escapeHtml(issue.message)}</div>
+${issue.rule ? `<div class="rule">${escapeHtml(issue.rule)}${issue.analyzer ? ` · via ${escapeHtml(issue.analyzer)}` : ""}</div>` : ""}
+${issue.suggestion ? `<p class="suggestion">Suggestion: ${escapeHtml(issue.suggestion)}</p>` : ""}
+${snippet(source, issue.line)}
+</div>`
+        )
+        .join("\n");
+      const badges = severities
+        .map((severity) => {
+          const count = fileIssues.filter((issue) => issue.severity === severity).length;
+          return count > 0
+            ? `<span class="badge" style="background:${severityColors[severity]}">${count} ${severity}</span>`
+            : "";
+        })
+        .join(" ");
+      return `<details open>
+<summary><h3>${escapeHtml(file)}</h3>${badges}</summary>
+<div class="file-body">${grouped}</div>
+</details>`;
+    })
+    .join("\n");
+
+  const patches = createPatches(acceptedFiles(refactoredFiles));
+  const diffSections = patches
+    .map(
+      (patch) => `<details>
+<summary><h3>${escapeHtml(patch.file)}</h3><span class="rule">+${patch.additions} -${patch.deletions}</span></summary>
+<div class="file-body">${diffTable(patch.diff)}</div>
+</details>`
+    )
+    .join("\n");
+
+  const generatedAt = new Date().toISOString();
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Code Analysis Report - ${escapeHtml(result.request_id)}</title>
+<style>${styles}</style>
+</head>
+<body>
+<main>
+<h1>Code Analysis Report</h1>
+<div class="meta">Request ${escapeHtml(result.request_id)} · ${escapeHtml(result.status)} · generated ${generatedAt}</div>
+
+<div class="cards">
+<div class="card"><div class="value">${escapeHtml(String(result.summary?.total_files_analyzed ?? refactoredFiles.length))}</div><div class="label">Files analyzed</div></div>
+<div class="card"><div class="value" style="color:${severityColors.critical}">${escapeHtml(String(counts.critical))}</div><div class="label">Critical issues</div></div>
+<div class="card"><div class="value" style="color:${severityColors.major}">${escapeHtml(String(counts.major))}</div><div class="label">Major issues</div></div>
+<div class="card"><div class="value" style="color:${severityColors.minor}">${escapeHtml(String(counts.minor))}</div><div class="label">Minor issues</div></div>
+</div>
+${result.summary?.languages.length ? `<p class="meta">Languages: ${result.summary.languages.map(escapeHtml).join(", ")}</p>` : ""}
+
+<h2>Issues by severity</h2>
+${severityChart}
+${filesChart ? `<h2>Files with the most issues</h2>\n${filesChart}` : ""}
+
+<h2>Issues by file</h2>
+${fileSections || '<p class="empty">No issues found.</p>'}
+
+<h2>Refactoring changes</h2>
+${diffSections || '<p class="empty">No refactoring changes.</p>'}
+</main>
+</body>
+</html>
+`;
+}
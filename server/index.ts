@@ -3,6 +3,8 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
 import { createServer } from "http";
+import { jobQueue } from "./queue";
+import { setJobStatus, failedResult } from "./jobs";
 
 const app = express();
 const httpServer = createServer(app);
@@ -88,4 +90,28 @@ app.use((req, res, next) => {
   httpServer.listen(port, "0.0.0.0", () => {
     log(`serving on port ${port}`);
   });
+
+  // On shutdown, let running analyses finish and fail the ones still queued
+  // so they don't sit in "queued" forever. A second signal exits immediately.
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) {
+      log(`received ${signal} again, exiting without draining`);
+      process.exit(1);
+    }
+    shuttingDown = true;
+    log(
+      `received ${signal}, draining job queue (${jobQueue.activeCount} running, ${jobQueue.waitingCount} queued)`,
+    );
+
+    httpServer.close();
+    const dropped = await jobQueue.drain();
+    for (const id of dropped) {
+      await setJobStatus(id, "failed", failedResult(id));
+    }
+    process.exit(0);
+  };
+
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+  process.on("SIGINT", () => shutdown("SIGINT"));
 })();
@@ -0,0 +1,23 @@
+import { storage } from "./storage";
+import { jobEvents } from "./events";
+import type { AnalysisJob } from "@shared/schema";
+
+// `error` is shown to the user, so only pass messages about their own input
+export function failedResult(requestId: string, error?: string) {
+  return {
+    request_id: requestId,
+    status: "failed",
+    summary: { languages: [], total_files_analyzed: 0, issues_count: { critical: 0, major: 0, minor: 0 } },
+    issues: [],
+    patches: [],
+    refactoredFiles: [],
+    error
+  };
+}
+
+// Persist a status change and notify anyone streaming the job's events
+export async function setJobStatus(id: string, status: AnalysisJob["status"], results?: any) {
+  const job = await storage.updateJobStatus(id, status, results);
+  jobEvents.publishStatus(id, status);
+  return job;
+}
@@ -0,0 +1,52 @@
+import { randomUUID } from "crypto";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { analyzeDirectory, generateJSON, generateReport, type AnalysisResult, type AnalyzeOptions } from "./analyzer";
+
+export { analyzeDirectory, generateJSON, generateReport, type AnalysisResult, type AnalyzeOptions } from "./analyzer";
+export { CONFIG_FILE, readRepoConfig, RepoConfigError } from "./config";
+export { analyzerRegistry, type Analyzer, type AnalyzerContext, type Issue } from "./analyzers";
+export { getLLMProvider, type LLMProvider } from "./llm";
+
+export const reportFormats = ["markdown", "json"] as const;
+export type ReportFormat = (typeof reportFormats)[number];
+
+const reportExtensions: Record<ReportFormat, string> = {
+  markdown: "md",
+  json: "json",
+};
+
+export interface LocalAnalyzeOptions extends AnalyzeOptions {
+  analysisMode?: string;
+  requestId?: string;
+}
+
+// Run the server's analysis pipeline on a working copy without zipping or
+// cloning it. LLM providers are configured from the same environment variables.
+export async function analyzeLocal(dir: string, options: LocalAnalyzeOptions = {}): Promise<AnalysisResult> {
+  const root = path.resolve(dir);
+  const stat = await fs.stat(root).catch(() => undefined);
+  if (!stat?.isDirectory()) {
+    throw new Error(`${dir} is not a directory`);
+  }
+
+  const { analysisMode = "standard", requestId = `req-${randomUUID().slice(0, 8)}`, ...analyzeOptions } = options;
+  return analyzeDirectory(requestId, root, analysisMode, analyzeOptions);
+}
+
+// Write reports under the same names the download endpoints use and return their paths
+export async function writeReports(
+  result: AnalysisResult,
+  outDir: string,
+  formats: readonly ReportFormat[] = reportFormats
+): Promise<string[]> {
+  await fs.mkdir(outDir, { recursive: true });
+
+  const written: string[] = [];
+  for (const format of formats) {
+    const destination = path.join(outDir, `analysis-${result.request_id}.${reportExtensions[format]}`);
+    await fs.writeFile(destination, format === "markdown" ? generateReport(result) : generateJSON(result));
+    written.push(destination);
+  }
+  return written;
+}
@@ -0,0 +1,174 @@
+import { createHash, randomUUID } from "crypto";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { eq } from "drizzle-orm";
+import { llmCacheEntries } from "@shared/schema";
+import { getDb, type Database } from "../db";
+
+// Everything a per-file prompt depends on. Two calls with equal keys would
+// send the same prompt to the same model, so the stored answer can be reused.
+export interface LLMCacheKey {
+  task: "analyze" | "refactor";
+  promptVersion: number;
+  provider: string;
+  model: string;
+  language: string;
+  content: string;
+  // Other prompt inputs, e.g. the issues a refactoring should fix
+  extra?: string;
+}
+
+export function cacheKey(key: LLMCacheKey): string {
+  const hash = (text: string) => createHash("sha256").update(text).digest("hex");
+  return hash(
+    JSON.stringify([
+      key.task,
+      key.promptVersion,
+      key.provider,
+      key.model,
+      key.language,
+      hash(key.content),
+      key.extra ? hash(key.extra) : "",
+    ])
+  );
+}
+
+export interface LLMCache {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string): Promise<void>;
+}
+
+// Bounded in-process cache; the least recently used entry is evicted first
+export class MemoryLLMCache implements LLMCache {
+  private entries = new Map<string, string>();
+
+  constructor(private maxEntries: number = 1000) {}
+
+  async get(key: string): Promise<string | undefined> {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+}
+
+// One file per entry, so the cache survives restarts and can be shared by
+// local runs and a server on the same machine
+export class DiskLLMCache implements LLMCache {
+  constructor(private dir: string) {}
+
+  private file(key: string): string {
+    return path.join(this.dir, key.slice(0, 2), key);
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    try {
+      return await fs.readFile(this.file(key), "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const file = this.file(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Write then rename so a concurrent reader never sees a partial entry
+    const temp = `${file}.${randomUUID()}.tmp`;
+    await fs.writeFile(temp, value);
+    await fs.rename(temp, file);
+  }
+}
+
+export class DbLLMCache implements LLMCache {
+  constructor(private db: Database = getDb()) {}
+
+  async get(key: string): Promise<string | undefined> {
+    const [row] = await this.db
+      .select({ value: llmCacheEntries.value })
+      .from(llmCacheEntries)
+      .where(eq(llmCacheEntries.key, key));
+    return row?.value;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.db
+      .insert(llmCacheEntries)
+      .values({ key, value })
+      .onConflictDoUpdate({ target: llmCacheEntries.key, set: { value, createdAt: new Date() } });
+  }
+}
+
+// Stores fresh answers without reading old ones, for jobs that bypass the cache
+export class WriteOnlyLLMCache implements LLMCache {
+  constructor(private inner: LLMCache) {}
+
+  async get(): Promise<string | undefined> {
+    return undefined;
+  }
+
+  set(key: string, value: string): Promise<void> {
+    return this.inner.set(key, value);
+  }
+}
+
+// A broken cache must never fail an analysis, so reads and writes only log
+export async function readCache(cache: LLMCache | null, key: string): Promise<string | undefined> {
+  if (!cache) return undefined;
+  try {
+    return await cache.get(key);
+  } catch (error) {
+    console.error("LLM cache read failed:", error);
+    return undefined;
+  }
+}
+
+export async function writeCache(cache: LLMCache | null, key: string, value: string): Promise<void> {
+  if (!cache) return;
+  try {
+    await cache.set(key, value);
+  } catch (error) {
+    console.error("LLM cache write failed:", error);
+  }
+}
+
+const backendNames = ["memory", "disk", "postgres", "none"] as const;
+type BackendName = (typeof backendNames)[number];
+
+// LLM_CACHE is validated at startup like the provider names
+const backendName = (process.env.LLM_CACHE || "memory").trim().toLowerCase() as BackendName;
+if (!backendNames.includes(backendName)) {
+  throw new Error(`Unknown LLM_CACHE "${process.env.LLM_CACHE}", expected one of: ${backendNames.join(", ")}`);
+}
+
+function createLLMCache(): LLMCache | null {
+  switch (backendName) {
+    case "memory":
+      return new MemoryLLMCache();
+    case "disk":
+      return new DiskLLMCache(path.resolve(process.env.LLM_CACHE_DIR || ".cache/llm"));
+    case "postgres":
+      return new DbLLMCache();
+    case "none":
+      return null;
+  }
+}
+
+let cache: LLMCache | null | undefined;
+
+export function getLLMCache(): LLMCache | null {
+  if (cache === undefined) {
+    cache = createLLMCache();
+  }
+  return cache;
+}
@@ -0,0 +1,19 @@
+import type { LLMProvider, LLMRequest } from "./types";
+
+export type FakeResponder = (request: LLMRequest) => string;
+
+// Reports no issues and suggests no changes
+const defaultResponder: FakeResponder = ({ json }) => (json ? "[]" : "");
+
+// Deterministic provider for tests and offline demos. Never touches the network.
+export class FakeProvider implements LLMProvider {
+  readonly id = "fake";
+  readonly model = "fake";
+
+  constructor(private respond: FakeResponder = defaultResponder) {}
+
+  async generate(request: LLMRequest): Promise<string> {
+    request.signal?.throwIfAborted();
+    return this.respond(request);
+  }
+}
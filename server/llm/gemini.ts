@@ -0,0 +1,29 @@
+import { GoogleGenAI } from "@google/genai";
+import type { LLMProvider, LLMRequest } from "./types";
+
+export class GeminiProvider implements LLMProvider {
+  readonly id = "gemini";
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string, readonly model: string) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async generate({ prompt, json, signal }: LLMRequest): Promise<string> {
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      contents: [
+        {
+          role: "user",
+          parts: [{ text: prompt }]
+        }
+      ],
+      config: {
+        responseMimeType: json ? "application/json" : undefined,
+        abortSignal: signal,
+      },
+    });
+
+    return response.text ?? response.candidates?.[0]?.content?.parts?.[0]?.text ?? "";
+  }
+}
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// The provider names are read at import, so each test stubs the env and then
+// imports a fresh copy of the module
+async function importWithEnv(env: Record<string, string | undefined>) {
+  const variables = [
+    "LLM_PROVIDER",
+    "LLM_PROVIDER_QUICK",
+    "LLM_PROVIDER_STANDARD",
+    "LLM_PROVIDER_DEEP",
+    "GEMINI_API_KEY",
+    "OPENAI_BASE_URL",
+    "OPENAI_API_KEY",
+    "OLLAMA_BASE_URL",
+    "OLLAMA_MODEL",
+  ];
+  for (const variable of variables) {
+    vi.stubEnv(variable, env[variable]);
+  }
+  return import("./index");
+}
+
+describe("getLLMProvider", () => {
+  let consoleWarn: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.resetModules();
+    consoleWarn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("uses no provider without LLM_PROVIDER or a Gemini key", async () => {
+    const { getLLMProvider } = await importWithEnv({});
+
+    expect(getLLMProvider("standard")).toBeNull();
+    expect(consoleWarn).not.toHaveBeenCalled();
+  });
+
+  it("defaults to Gemini when its key is set", async () => {
+    const { getLLMProvider, GeminiProvider } = await importWithEnv({ GEMINI_API_KEY: "gemini-key" });
+
+    const provider = getLLMProvider("standard");
+
+    expect(provider).toBeInstanceOf(GeminiProvider);
+    expect(provider).toMatchObject({ id: "gemini", model: "gemini-2.0-flash" });
+  });
+
+  it("picks the provider named by LLM_PROVIDER, ignoring case", async () => {
+    const { getLLMProvider, FakeProvider } = await importWithEnv({ LLM_PROVIDER: " Fake ", GEMINI_API_KEY: "key" });
+
+    expect(getLLMProvider("deep")).toBeInstanceOf(FakeProvider);
+  });
+
+  it("uses Ollama's local defaults", async () => {
+    const { getLLMProvider, OpenAICompatibleProvider } = await importWithEnv({ LLM_PROVIDER: "ollama" });
+
+    const provider = getLLMProvider("standard");
+
+    expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+    expect(provider).toMatchObject({ id: "ollama", model: "qwen2.5-coder" });
+  });
+
+  it("overrides the provider per analysis mode and reuses each provider", async () => {
+    const { getLLMProvider, FakeProvider } = await importWithEnv({
+      LLM_PROVIDER: "fake",
+      LLM_PROVIDER_QUICK: "none",
+    });
+
+    expect(getLLMProvider("quick")).toBeNull();
+    expect(getLLMProvider("standard")).toBeInstanceOf(FakeProvider);
+    expect(getLLMProvider("deep")).toBe(getLLMProvider("standard"));
+  });
+
+  it("falls back to local tools when a provider's settings are missing", async () => {
+    const { getLLMProvider } = await importWithEnv({ LLM_PROVIDER: "gemini", LLM_PROVIDER_DEEP: "openai" });
+
+    expect(getLLMProvider("standard")).toBeNull();
+    expect(getLLMProvider("deep")).toBeNull();
+    expect(consoleWarn).toHaveBeenCalledWith(expect.stringMatching(/^GEMINI_API_KEY not set/));
+    expect(consoleWarn).toHaveBeenCalledWith(expect.stringMatching(/^Neither OPENAI_BASE_URL nor OPENAI_API_KEY set/));
+  });
+
+  it("accepts an OpenAI-compatible server without an API key", async () => {
+    const { getLLMProvider } = await importWithEnv({
+      LLM_PROVIDER: "openai",
+      OPENAI_BASE_URL: "http://localhost:8000/v1",
+    });
+
+    expect(getLLMProvider("standard")).toMatchObject({ id: "openai", model: "gpt-4o-mini" });
+  });
+
+  it("rejects an unknown provider at import", async () => {
+    await expect(importWithEnv({ LLM_PROVIDER: "mistral" })).rejects.toThrow(
+      'Unknown LLM provider "mistral" in LLM_PROVIDER, expected one of: gemini, openai, ollama, fake, none'
+    );
+    vi.resetModules();
+    await expect(importWithEnv({ LLM_PROVIDER_QUICK: "olama" })).rejects.toThrow(
+      /Unknown LLM provider "olama" in LLM_PROVIDER_QUICK/
+    );
+  });
+});
@@ -0,0 +1,100 @@
+import { analysisJobSchema } from "@shared/schema";
+import { FakeProvider } from "./fake";
+import { GeminiProvider } from "./gemini";
+import { OpenAICompatibleProvider } from "./openai";
+import type { LLMProvider } from "./types";
+
+export type { LLMProvider, LLMRequest } from "./types";
+export {
+  getLLMCache,
+  DbLLMCache,
+  DiskLLMCache,
+  MemoryLLMCache,
+  WriteOnlyLLMCache,
+  type LLMCache,
+} from "./cache";
+export { FakeProvider, type FakeResponder } from "./fake";
+export { GeminiProvider } from "./gemini";
+export { OpenAICompatibleProvider } from "./openai";
+
+const providerNames = ["gemini", "openai", "ollama", "fake", "none"] as const;
+type ProviderName = (typeof providerNames)[number];
+
+function parseProviderName(value: string, variable: string): ProviderName {
+  const name = value.trim().toLowerCase();
+  if (!(providerNames as ReadonlyArray<string>).includes(name)) {
+    throw new Error(
+      `Unknown LLM provider "${value}" in ${variable}, expected one of: ${providerNames.join(", ")}`
+    );
+  }
+  return name as ProviderName;
+}
+
+// Returns null when the provider is disabled or missing required settings,
+// in which case analyzers fall back to local tools only
+function createProvider(name: ProviderName): LLMProvider | null {
+  switch (name) {
+    case "gemini": {
+      const apiKey = process.env.GEMINI_API_KEY;
+      if (!apiKey) {
+        console.warn("GEMINI_API_KEY not set - will use fallback analysis tools only");
+        return null;
+      }
+      return new GeminiProvider(apiKey, process.env.GEMINI_MODEL || "gemini-2.0-flash");
+    }
+    case "openai": {
+      const baseURL = process.env.OPENAI_BASE_URL;
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!baseURL && !apiKey) {
+        console.warn("Neither OPENAI_BASE_URL nor OPENAI_API_KEY set - will use fallback analysis tools only");
+        return null;
+      }
+      return new OpenAICompatibleProvider(
+        "openai",
+        baseURL || "https://api.openai.com/v1",
+        apiKey || "unused",
+        process.env.OPENAI_MODEL || "gpt-4o-mini"
+      );
+    }
+    case "ollama":
+      return new OpenAICompatibleProvider(
+        "ollama",
+        process.env.OLLAMA_BASE_URL || "http://localhost:11434/v1",
+        "ollama",
+        process.env.OLLAMA_MODEL || "qwen2.5-coder"
+      );
+    case "fake":
+      return new FakeProvider();
+    case "none":
+      return null;
+  }
+}
+
+// LLM_PROVIDER picks the deployment-wide backend, defaulting to Gemini when a
+// key is configured. LLM_PROVIDER_<MODE> overrides it for one analysis mode,
+// e.g. a local model for quick scans and a hosted one for deep analysis.
+// Names are validated at startup so a typo fails fast instead of mid-job.
+const defaultProviderName = process.env.LLM_PROVIDER
+  ? parseProviderName(process.env.LLM_PROVIDER, "LLM_PROVIDER")
+  : process.env.GEMINI_API_KEY ? "gemini" : "none";
+
+const modeProviderNames = new Map<string, ProviderName>();
+for (const mode of analysisJobSchema.shape.analysisMode.options) {
+  const variable = `LLM_PROVIDER_${mode.toUpperCase()}`;
+  const value = process.env[variable];
+  modeProviderNames.set(mode, value ? parseProviderName(value, variable) : defaultProviderName);
+}
+
+const providers = new Map<ProviderName, LLMProvider | null>();
+
+export function getLLMProvider(analysisMode: string): LLMProvider | null {
+  const name = modeProviderNames.get(analysisMode) ?? defaultProviderName;
+  if (!providers.has(name)) {
+    const provider = createProvider(name);
+    if (provider) {
+      console.log(`Using LLM provider ${provider.id} with model ${provider.model}`);
+    }
+    providers.set(name, provider);
+  }
+  return providers.get(name)!;
+}
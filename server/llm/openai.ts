@@ -0,0 +1,33 @@
+import OpenAI from "openai";
+import type { LLMProvider, LLMRequest } from "./types";
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, vLLM,
+// LM Studio, or Ollama's /v1 endpoint
+export class OpenAICompatibleProvider implements LLMProvider {
+  private client: OpenAI;
+
+  constructor(
+    readonly id: string,
+    baseURL: string,
+    // Local servers ignore the key, but the client refuses to start without one
+    apiKey: string,
+    readonly model: string
+  ) {
+    // Retries are handled by retryWithBackoff so they honour cancellation
+    this.client = new OpenAI({ baseURL, apiKey, maxRetries: 0 });
+  }
+
+  async generate({ prompt, signal }: LLMRequest): Promise<string> {
+    // JSON mode is not requested: it only allows objects, the analysis prompt
+    // asks for an array, and several local servers do not implement it
+    const completion = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        messages: [{ role: "user", content: prompt }],
+      },
+      { signal }
+    );
+
+    return completion.choices[0]?.message?.content ?? "";
+  }
+}
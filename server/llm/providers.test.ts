@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { FakeProvider } from "./fake";
+import { GeminiProvider } from "./gemini";
+import { OpenAICompatibleProvider } from "./openai";
+
+// Stands in for the HTTP API; records each request's URL and JSON body
+function stubFetch(body: unknown, status = 200) {
+  const requests: { url: string; body: any; headers: Headers }[] = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const request = new Request(input, init);
+      requests.push({ url: request.url, body: await request.json(), headers: request.headers });
+      return Response.json(body, { status });
+    })
+  );
+  return requests;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("FakeProvider", () => {
+  it("reports no issues and no changes by default", async () => {
+    const provider = new FakeProvider();
+
+    expect(await provider.generate({ prompt: "analyze", json: true })).toBe("[]");
+    expect(await provider.generate({ prompt: "refactor" })).toBe("");
+  });
+
+  it("answers with the given responder", async () => {
+    const provider = new FakeProvider(({ prompt }) => prompt.toUpperCase());
+
+    expect(await provider.generate({ prompt: "let a = 1;" })).toBe("LET A = 1;");
+  });
+
+  it("rejects once the request is aborted", async () => {
+    const controller = new AbortController();
+    controller.abort(new Error("cancelled"));
+
+    await expect(new FakeProvider().generate({ prompt: "x", signal: controller.signal })).rejects.toThrow("cancelled");
+  });
+});
+
+describe("OpenAICompatibleProvider", () => {
+  it("sends the prompt as a chat completion and returns the answer", async () => {
+    const requests = stubFetch({
+      id: "chatcmpl-1",
+      object: "chat.completion",
+      created: 0,
+      model: "qwen2.5-coder",
+      choices: [{ index: 0, finish_reason: "stop", message: { role: "assistant", content: "let a = 1;" } }],
+    });
+    const provider = new OpenAICompatibleProvider("ollama", "http://localhost:11434/v1", "ollama", "qwen2.5-coder");
+
+    expect(await provider.generate({ prompt: "Refactor this", json: true })).toBe("let a = 1;");
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe("http://localhost:11434/v1/chat/completions");
+    expect(requests[0].body).toEqual({
+      model: "qwen2.5-coder",
+      messages: [{ role: "user", content: "Refactor this" }],
+    });
+    expect(requests[0].headers.get("authorization")).toBe("Bearer ollama");
+  });
+
+  it("rejects with the HTTP status so callers can retry rate limits", async () => {
+    stubFetch({ error: { message: "Slow down" } }, 429);
+    const provider = new OpenAICompatibleProvider("openai", "https://api.openai.com/v1", "sk-test", "gpt-4o-mini");
+
+    await expect(provider.generate({ prompt: "x" })).rejects.toMatchObject({ status: 429 });
+  });
+});
+
+describe("GeminiProvider", () => {
+  it("asks for JSON when requested and returns the text", async () => {
+    const requests = stubFetch({
+      candidates: [{ content: { role: "model", parts: [{ text: "[]" }] }, finishReason: "STOP" }],
+    });
+    const provider = new GeminiProvider("gemini-key", "gemini-2.0-flash");
+
+    expect(await provider.generate({ prompt: "Analyze this", json: true })).toBe("[]");
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toContain("models/gemini-2.0-flash:generateContent");
+    expect(requests[0].headers.get("x-goog-api-key")).toBe("gemini-key");
+    expect(requests[0].body).toMatchObject({
+      contents: [{ role: "user", parts: [{ text: "Analyze this" }] }],
+      generationConfig: { responseMimeType: "application/json" },
+    });
+  });
+
+  it("returns an empty answer when there are no candidates", async () => {
+    stubFetch({ candidates: [] });
+    const provider = new GeminiProvider("gemini-key", "gemini-2.0-flash");
+
+    expect(await provider.generate({ prompt: "Refactor this" })).toBe("");
+  });
+});
@@ -0,0 +1,281 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import type { AnalyzerContext, Issue } from "../analyzers/types";
+import { cacheKey, readCache, writeCache, type LLMCache } from "./cache";
+import type { LLMProvider } from "./types";
+
+// Bump these when a prompt or the handling of its response changes, so cached
+// answers to the old prompt stop being used
+const ANALYSIS_PROMPT_VERSION = 1;
+const REFACTOR_PROMPT_VERSION = 1;
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Retry helper with exponential backoff
+export async function retryWithBackoff<T>(
+  fn: () => Promise<T>,
+  maxRetries: number = 3,
+  baseDelay: number = 1000,
+  signal?: AbortSignal
+): Promise<T> {
+  let lastError: any;
+  for (let i = 0; i < maxRetries; i++) {
+    try {
+      return await fn();
+    } catch (error: any) {
+      lastError = error;
+      if (error.status === 429 && i < maxRetries - 1) {
+        const delay = baseDelay * Math.pow(2, i);
+        console.log(`Rate limited, retrying in ${delay}ms...`);
+        await sleep(delay, signal);
+      } else {
+        throw error;
+      }
+    }
+  }
+  throw lastError;
+}
+
+async function analyzeFileWithLLM(
+  llm: LLMProvider,
+  fileContent: string,
+  relativePath: string,
+  language: string,
+  signal?: AbortSignal
+): Promise<Issue[] | null> {
+
+  const systemPrompt = `You are an expert code analyzer. Analyze the given ${language} code and identify issues.
+
+For each issue found, provide a JSON array with objects containing:
+- severity: "critical" (bugs, security issues, syntax errors), "major" (logic errors, bad practices), or "minor" (style, formatting)
+- line: the line number where the issue occurs (integer)
+- message: brief description of the issue
+- rule: a rule identifier like "${language}/issue-type"
+- suggestion: how to fix the issue
+
+Only include real, actionable issues. Be thorough but avoid false positives.
+Return ONLY a valid JSON array, no markdown or explanations.
+If no issues are found, return an empty array: []`;
+
+  const userPrompt = `Analyze this ${language} file for issues:
+
+File: ${relativePath}
+
+\`\`\`${language}
+${fileContent}
+\`\`\`
+
+Return a JSON array of issues found.`;
+
+  try {
+    console.log(`Analyzing file with ${llm.id}: ${relativePath}`);
+    
+    const responseText = await retryWithBackoff(
+      () => llm.generate({ prompt: systemPrompt + "\n\n" + userPrompt, json: true, signal }),
+      3,
+      2000,
+      signal
+    );
+
+    if (!responseText) {
+      console.error(`No text found in ${llm.id} response for ${relativePath}`);
+      return null;
+    }
+    
+    console.log(`${llm.id} analysis response for ${relativePath}:`, responseText.substring(0, 500));
+    const cleanedResponse = responseText.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+    
+    try {
+      const parsedIssues = JSON.parse(cleanedResponse);
+      
+      if (Array.isArray(parsedIssues)) {
+        console.log(`Found ${parsedIssues.length} issues in ${relativePath}`);
+        return parsedIssues.map((issue: any) => ({
+          severity: issue.severity === "critical" || issue.severity === "major" || issue.severity === "minor" 
+            ? issue.severity 
+            : "minor",
+          file: relativePath,
+          line: typeof issue.line === 'number' ? issue.line : 1,
+          message: issue.message || "Unknown issue",
+          rule: issue.rule || `${language}/${llm.id}-detected`,
+          suggestion: issue.suggestion || ""
+        }));
+      } else {
+        console.error(`${llm.id} response is not an array for ${relativePath}:`, typeof parsedIssues);
+      }
+    } catch (parseError) {
+      console.error(`Error parsing ${llm.id} response for ${relativePath}:`, parseError);
+      console.error(`Raw response was:`, cleanedResponse.substring(0, 500));
+    }
+  } catch (error: any) {
+    signal?.throwIfAborted();
+    console.error(`Error analyzing file ${relativePath} with ${llm.id}:`, error.message || error);
+  }
+  
+  // Failed calls return null so they are not cached
+  return null;
+}
+
+export async function analyzeFilesWithLLM(
+  files: string[],
+  baseDir: string,
+  language: string,
+  ctx: AnalyzerContext
+): Promise<Issue[]> {
+  const { llm } = ctx;
+  if (!llm) {
+    console.log(`No LLM provider configured, skipping AI analysis of ${language} files`);
+    return [];
+  }
+
+  const allIssues: Issue[] = [];
+  
+  for (const file of files) {
+    ctx.signal?.throwIfAborted();
+    const relativePath = path.relative(baseDir, file);
+    ctx.onFile?.(relativePath);
+    
+    try {
+      const content = await fs.readFile(file, 'utf-8');
+      const key = cacheKey({
+        task: "analyze",
+        promptVersion: ANALYSIS_PROMPT_VERSION,
+        provider: llm.id,
+        model: llm.model,
+        language,
+        content,
+      });
+
+      // Cached issues are stored without their path so renamed files still hit
+      const cached = await readCache(ctx.cache, key);
+      if (cached !== undefined) {
+        console.log(`Using cached ${llm.id} analysis for ${relativePath}`);
+        const issues: Omit<Issue, "file">[] = JSON.parse(cached);
+        allIssues.push(...issues.map((issue) => ({ ...issue, file: relativePath })));
+        continue;
+      }
+
+      const issues = await analyzeFileWithLLM(llm, content, relativePath, language, ctx.signal);
+      if (issues) {
+        allIssues.push(...issues);
+        await writeCache(ctx.cache, key, JSON.stringify(issues.map(({ file, ...issue }) => issue)));
+      }
+    } catch (error) {
+      console.error(`Error reading file ${file}:`, error);
+    }
+  }
+  
+  return allIssues;
+}
+
+export interface LLMRefactoring {
+  code: string;
+  // Set when `code` is a fresh answer. The caller caches it under this key
+  // once the output has passed validation, so a broken answer is asked again.
+  // The key leaves out the retry prompt: an answer that only passed on a
+  // retry is what the next run's first attempt should find.
+  cacheKey?: string;
+}
+
+export async function refactorFileWithLLM(
+  llm: LLMProvider | null,
+  filePath: string, 
+  fileContent: string, 
+  issues: Issue[], 
+  relativePath: string,
+  signal?: AbortSignal,
+  // Syntax error in the previous attempt's output, when retrying
+  previousError?: string,
+  cache: LLMCache | null = null
+): Promise<LLMRefactoring> {
+  if (!llm) {
+    console.log(`No LLM provider configured, skipping refactoring for ${relativePath}`);
+    return { code: fileContent };
+  }
+
+  const fileIssues = issues.filter(i => i.file === relativePath);
+  
+  const issuesSummary = fileIssues.length > 0 
+    ? fileIssues.map(i => `- Line ${i.line}: ${i.message} (${i.severity})`).join('\n')
+    : 'No specific issues detected';
+
+  const systemPrompt = `You are an expert code refactoring assistant. Your task is to improve the given code by:
+1. Fixing all detected issues and bugs
+2. Improving code readability and structure
+3. Following best practices for the programming language
+4. Removing unused imports and variables
+5. Adding appropriate comments where helpful
+6. Maintaining the original functionality
+
+IMPORTANT: Return ONLY the refactored code, with no explanations, markdown formatting, or code blocks. The output should be valid code that can be directly saved to a file.`;
+
+  const userPrompt = `Here is a code file that needs refactoring:
+
+File: ${relativePath}
+
+Detected Issues:
+${issuesSummary}
+
+Original Code:
+${fileContent}
+
+Please provide the refactored version of this code.`;
+
+  const retryPrompt = previousError
+    ? `\n\nYour previous answer for this file was not valid code and was rejected:\n${previousError}\nReturn the complete file and make sure it parses.`
+    : "";
+
+  const key = cacheKey({
+    task: "refactor",
+    promptVersion: REFACTOR_PROMPT_VERSION,
+    provider: llm.id,
+    model: llm.model,
+    language: path.extname(relativePath).toLowerCase(),
+    content: fileContent,
+    extra: issuesSummary,
+  });
+  // A retry follows a fresh answer that failed validation, so there is no
+  // usable cached answer to find
+  const cached = previousError ? undefined : await readCache(cache, key);
+  if (cached !== undefined) {
+    console.log(`Using cached ${llm.id} refactoring for ${relativePath}`);
+    return { code: cached };
+  }
+
+  try {
+    console.log(`Refactoring file with ${llm.id}: ${relativePath}`);
+    
+    let refactoredCode = await retryWithBackoff(
+      () => llm.generate({ prompt: systemPrompt + "\n\n" + userPrompt + retryPrompt, signal }),
+      3,
+      2000,
+      signal
+    );
+
+    if (!refactoredCode.trim()) {
+      console.error(`No text found in ${llm.id} refactor response for ${relativePath}`);
+      return { code: fileContent };
+    }
+    
+    refactoredCode = refactoredCode.replace(/^```[\w]*\n?/g, '').replace(/\n?```$/g, '').trim();
+    console.log(`${llm.id} refactored ${relativePath}, output length: ${refactoredCode.length}`);
+    return { code: refactoredCode, cacheKey: key };
+  } catch (error: any) {
+    signal?.throwIfAborted();
+    console.error(`Error refactoring file ${relativePath}:`, error.message || error);
+    return { code: fileContent };
+  }
+}
@@ -0,0 +1,15 @@
+export interface LLMRequest {
+  prompt: string;
+  // Ask for a bare JSON response where the backend supports it
+  json?: boolean;
+  signal?: AbortSignal;
+}
+
+// A text-completion backend. `generate` resolves with the raw response text
+// and rejects with an error carrying an HTTP `status` when the backend
+// returned one, so callers can retry on 429.
+export interface LLMProvider {
+  id: string;
+  model: string;
+  generate(request: LLMRequest): Promise<string>;
+}
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { JobQueue, QueueUnavailableError } from "./queue";
+
+// A job that runs until the test finishes it
+function controllableJob() {
+  let finish!: () => void;
+  let signal: AbortSignal | undefined;
+  const done = new Promise<void>((resolve) => (finish = resolve));
+  const run = vi.fn(async (jobSignal: AbortSignal) => {
+    signal = jobSignal;
+    await Promise.race([
+      done,
+      new Promise<void>((_, reject) => jobSignal.addEventListener("abort", () => reject(jobSignal.reason))),
+    ]);
+  });
+  return { run, finish, signal: () => signal };
+}
+
+// Let settled job promises run their finally handlers
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("JobQueue", () => {
+  it("runs at most maxConcurrent jobs and starts the next one when a slot frees up", async () => {
+    const queue = new JobQueue(2, 10);
+    const jobs = [controllableJob(), controllableJob(), controllableJob()];
+    jobs.forEach((job, index) => queue.enqueue(`job-${index}`, job.run));
+
+    expect(jobs.map((job) => job.run.mock.calls.length)).toEqual([1, 1, 0]);
+    expect(queue.activeCount).toBe(2);
+    expect(queue.position("job-2")).toBe(1);
+    expect(queue.position("job-0")).toBeUndefined();
+
+    jobs[0].finish();
+    await flush();
+
+    expect(jobs[2].run).toHaveBeenCalledOnce();
+    expect(queue.waitingCount).toBe(0);
+  });
+
+  it("reports the positions of waiting jobs as they change", async () => {
+    const changes: [string, number][][] = [];
+    const queue = new JobQueue(1, 10, (positions) => changes.push(Array.from(positions)));
+    const first = controllableJob();
+    queue.enqueue("a", first.run);
+    queue.enqueue("b", controllableJob().run);
+    queue.enqueue("c", controllableJob().run);
+
+    expect(changes.at(-1)).toEqual([
+      ["b", 1],
+      ["c", 2],
+    ]);
+
+    first.finish();
+    await flush();
+    expect(changes.at(-1)).toEqual([["c", 1]]);
+  });
+
+  it("rejects jobs once maxQueued are waiting", () => {
+    const queue = new JobQueue(1, 1);
+    queue.enqueue("running", controllableJob().run);
+    queue.enqueue("waiting", controllableJob().run);
+
+    expect(() => queue.enqueue("rejected", controllableJob().run)).toThrow(QueueUnavailableError);
+  });
+
+  it("drops a waiting job and aborts a running one on cancel", async () => {
+    const queue = new JobQueue(1, 10);
+    const running = controllableJob();
+    const waiting = controllableJob();
+    queue.enqueue("running", running.run);
+    queue.enqueue("waiting", waiting.run);
+
+    expect(queue.cancel("waiting")).toBe(true);
+    expect(queue.waitingCount).toBe(0);
+
+    expect(queue.cancel("running")).toBe(true);
+    expect(running.signal()?.aborted).toBe(true);
+    await flush();
+
+    expect(waiting.run).not.toHaveBeenCalled();
+    expect(queue.cancel("running")).toBe(false);
+  });
+
+  it("drains by dropping waiting jobs and waiting for running ones", async () => {
+    const queue = new JobQueue(1, 10);
+    const running = controllableJob();
+    queue.enqueue("running", running.run);
+    queue.enqueue("waiting", controllableJob().run);
+
+    const drained = queue.drain();
+    expect(() => queue.enqueue("late", controllableJob().run)).toThrow(/shutting down/);
+
+    running.finish();
+    expect(await drained).toEqual(["waiting"]);
+    expect(queue.activeCount).toBe(0);
+  });
+});
+
+describe("queue settings", () => {
+  // Each test imports a fresh copy of the module so it reads the stubbed env
+  beforeEach(() => {
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it.each(["0", "-1", "abc", "2.5"])("rejects MAX_CONCURRENT_JOBS=%s at startup", async (value) => {
+    vi.stubEnv("MAX_CONCURRENT_JOBS", value);
+    await expect(import("./queue")).rejects.toThrow(`Invalid MAX_CONCURRENT_JOBS "${value}"`);
+  });
+
+  it("rejects MAX_QUEUED_JOBS=0 at startup", async () => {
+    vi.stubEnv("MAX_QUEUED_JOBS", "0");
+    await expect(import("./queue")).rejects.toThrow(/expected a positive integer/);
+  });
+
+  it("accepts positive integers", async () => {
+    vi.stubEnv("MAX_CONCURRENT_JOBS", "4");
+    vi.stubEnv("MAX_QUEUED_JOBS", " 100 ");
+    await expect(import("./queue")).resolves.toHaveProperty("jobQueue");
+  });
+});
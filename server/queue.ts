@@ -0,0 +1,138 @@
+import { jobEvents } from "./events";
+
+export class QueueUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueueUnavailableError";
+  }
+}
+
+interface QueuedJob {
+  id: string;
+  run: (signal: AbortSignal) => Promise<void>;
+}
+
+interface ActiveJob {
+  promise: Promise<void>;
+  controller: AbortController;
+}
+
+// Called with the 1-based position of every job still waiting whenever the
+// waiting list changes
+type QueueChangeListener = (positions: Map<string, number>) => void;
+
+export class JobQueue {
+  private waiting: QueuedJob[] = [];
+  private active = new Map<string, ActiveJob>();
+  private draining = false;
+
+  constructor(
+    private maxConcurrent: number,
+    private maxQueued: number,
+    private onQueueChange?: QueueChangeListener
+  ) {}
+
+  // Throws QueueUnavailableError instead of accepting more work than allowed
+  assertAccepting(): void {
+    if (this.draining) {
+      throw new QueueUnavailableError("Server is shutting down, not accepting new analyses");
+    }
+    if (this.waiting.length >= this.maxQueued) {
+      throw new QueueUnavailableError("Analysis queue is full, please try again later");
+    }
+  }
+
+  enqueue(id: string, run: (signal: AbortSignal) => Promise<void>): void {
+    this.assertAccepting();
+    this.waiting.push({ id, run });
+    this.startNext();
+  }
+
+  // 1-based position among waiting jobs, undefined once the job has started
+  position(id: string): number | undefined {
+    const index = this.waiting.findIndex((job) => job.id === id);
+    return index === -1 ? undefined : index + 1;
+  }
+
+  // Drop a waiting job or abort a running one. Returns false if the queue
+  // does not know the job (already finished or never queued here).
+  cancel(id: string): boolean {
+    const index = this.waiting.findIndex((job) => job.id === id);
+    if (index !== -1) {
+      this.waiting.splice(index, 1);
+      this.notifyPositions();
+      return true;
+    }
+
+    const active = this.active.get(id);
+    if (active) {
+      active.controller.abort(new Error("Analysis cancelled"));
+      return true;
+    }
+
+    return false;
+  }
+
+  get activeCount(): number {
+    return this.active.size;
+  }
+
+  get waitingCount(): number {
+    return this.waiting.length;
+  }
+
+  // Stop accepting new jobs, drop the ones that have not started yet and wait
+  // for running jobs to finish. Resolves with the ids of the dropped jobs.
+  async drain(): Promise<string[]> {
+    this.draining = true;
+    const dropped = this.waiting.map((job) => job.id);
+    this.waiting = [];
+    await Promise.allSettled(Array.from(this.active.values(), (job) => job.promise));
+    return dropped;
+  }
+
+  private startNext(): void {
+    let started = false;
+    while (!this.draining && this.active.size < this.maxConcurrent && this.waiting.length > 0) {
+      const job = this.waiting.shift()!;
+      const controller = new AbortController();
+      const promise = job
+        .run(controller.signal)
+        .catch((error) => {
+          console.error(`Queued job ${job.id} failed:`, error);
+        })
+        .finally(() => {
+          this.active.delete(job.id);
+          this.startNext();
+        });
+      this.active.set(job.id, { promise, controller });
+      started = true;
+    }
+
+    if (started || this.waiting.length > 0) {
+      this.notifyPositions();
+    }
+  }
+
+  private notifyPositions(): void {
+    this.onQueueChange?.(new Map(this.waiting.map((job, index) => [job.id, index + 1])));
+  }
+}
+
+// Validated at startup like LLM_CACHE: zero or a typo would leave a queue
+// that never runs or never accepts jobs
+function positiveIntegerEnv(name: string, fallback: number): number {
+  const value = process.env[name]?.trim();
+  if (!value) return fallback;
+  if (!/^\d+$/.test(value) || parseInt(value, 10) < 1) {
+    throw new Error(`Invalid ${name} "${process.env[name]}", expected a positive integer`);
+  }
+  return parseInt(value, 10);
+}
+
+const MAX_CONCURRENT_JOBS = positiveIntegerEnv("MAX_CONCURRENT_JOBS", 2);
+const MAX_QUEUED_JOBS = positiveIntegerEnv("MAX_QUEUED_JOBS", 50);
+
+export const jobQueue = new JobQueue(MAX_CONCURRENT_JOBS, MAX_QUEUED_JOBS, (positions) => {
+  positions.forEach((position, jobId) => jobEvents.publishQueuePosition(jobId, position));
+});
@@ -0,0 +1,130 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { jobEvents } from "./events";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(createServer(app), app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+// Server-sent events as { event, data } pairs, skipping heartbeat comments
+function parseEvents(text: string) {
+  return text
+    .split("\n\n")
+    .filter((block) => block.startsWith("event: "))
+    .map((block) => {
+      const [, event, data] = /^event: (.*)\ndata: (.*)$/.exec(block)!;
+      return { event, data: JSON.parse(data) };
+    });
+}
+
+// Read the stream until `count` events arrived or it ended. Each call starts
+// with an empty buffer, so call it again only for events sent afterwards.
+async function readEvents(body: ReadableStream<Uint8Array>, count: number) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  let ended = false;
+  while (parseEvents(text).length < count) {
+    const { value, done } = await reader.read();
+    if (done) {
+      ended = true;
+      break;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  reader.releaseLock();
+  return { events: parseEvents(text), ended };
+}
+
+describe("GET /api/jobs/:id/events", () => {
+  const unsubscribed = vi.fn();
+
+  beforeEach(() => {
+    const subscribe = jobEvents.subscribe.bind(jobEvents);
+    vi.spyOn(jobEvents, "subscribe").mockImplementation((id, listener) => {
+      const off = subscribe(id, listener);
+      return () => {
+        unsubscribed(id);
+        off();
+      };
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    unsubscribed.mockReset();
+  });
+
+  it("answers 404 for an unknown job", async () => {
+    const res = await fetch(`${baseUrl}/api/jobs/req-missing/events`);
+
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ message: "Job not found" });
+    expect(unsubscribed).toHaveBeenCalledWith("req-missing");
+  });
+
+  it("sends the status of a finished job and closes the stream", async () => {
+    const job = await storage.createJob({ analysisMode: "standard" });
+    await storage.updateJobStatus(job.id, "completed");
+
+    const res = await fetch(`${baseUrl}/api/jobs/${job.id}/events`);
+    expect(res.headers.get("content-type")).toBe("text/event-stream");
+
+    const { events, ended } = await readEvents(res.body!, Infinity);
+    expect(events).toEqual([{ event: "status", data: { status: "completed" } }]);
+    expect(ended).toBe(true);
+    expect(unsubscribed).toHaveBeenCalledWith(job.id);
+  });
+
+  it("sends a snapshot, forwards events and closes on a terminal status", async () => {
+    const job = await storage.createJob({ analysisMode: "standard" });
+    await storage.updateJobStatus(job.id, "processing");
+    jobEvents.publishProgress(job.id, { stage: "analyzing", message: "Analyzing file 1 of 2" });
+
+    const res = await fetch(`${baseUrl}/api/jobs/${job.id}/events`);
+    const snapshot = await readEvents(res.body!, 2);
+    expect(snapshot.events).toEqual([
+      { event: "status", data: { status: "processing" } },
+      { event: "progress", data: { stage: "analyzing", message: "Analyzing file 1 of 2" } },
+    ]);
+
+    jobEvents.publishProgress(job.id, { stage: "refactoring", message: "Refactoring file 1 of 2" });
+    jobEvents.publishStatus(job.id, "completed");
+    const rest = await readEvents(res.body!, Infinity);
+
+    expect(rest.events).toEqual([
+      { event: "progress", data: { stage: "refactoring", message: "Refactoring file 1 of 2" } },
+      { event: "status", data: { status: "completed" } },
+    ]);
+    expect(rest.ended).toBe(true);
+    expect(unsubscribed).toHaveBeenCalledWith(job.id);
+  });
+
+  it("stops listening when the client disconnects", async () => {
+    const job = await storage.createJob({ analysisMode: "standard" });
+    const controller = new AbortController();
+
+    const res = await fetch(`${baseUrl}/api/jobs/${job.id}/events`, { signal: controller.signal });
+    expect((await readEvents(res.body!, 1)).events).toEqual([{ event: "status", data: { status: "pending" } }]);
+    expect(unsubscribed).not.toHaveBeenCalled();
+
+    controller.abort();
+    await vi.waitFor(() => expect(unsubscribed).toHaveBeenCalledWith(job.id));
+  });
+});
@@ -1,11 +1,30 @@
 import type { Express } from "express";
+import * as path from "path";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { analyzeCode, generateReport, generateJSON } from "./analyzer";
+import { jobEvents, type JobEvent } from "./events";
+import { jobQueue, QueueUnavailableError } from "./queue";
+import { setJobStatus, failedResult } from "./jobs";
+import { analyzeCode, generateReport, generateJSON, SourceError } from "./analyzer";
+import { acceptedFiles, countHunks, createPatches, generatePatch } from "./diff";
+import { generateSARIF } from "./sarif";
+import { compareResults } from "./compare";
+import { BASELINE_FILE, createBaseline } from "./suppression";
+import { RepoConfigError } from "./config";
+import { isHttpsUrl, isSshUrl } from "./git-auth";
+import { generateHTMLReport } from "./html-report";
 import multer from "multer";
 import FormData from "form-data";
 import { z } from "zod";
-import { insertAnalysisJobSchema, callbackPayloadSchema } from "@shared/schema";
+import {
+  insertAnalysisJobSchema,
+  analysisResultSchema,
+  callbackPayloadSchema,
+  jobListQuerySchema,
+  hunkDecisionSchema,
+  isTerminalStatus,
+  type AnalysisResult,
+} from "@shared/schema";
 import archiver from "archiver";
 
 const upload = multer({ storage: multer.memoryStorage() });
@@ -14,11 +33,73 @@ const N8N_WEBHOOK = process.env.N8N_WEBHOOK || "";
 const CALLBACK_SECRET = process.env.CALLBACK_SECRET || "demo-secret";
 const EXTERNAL_BASE = process.env.EXTERNAL_BASE || "";
 
+const globListSchema = z
+  .string()
+  .default("")
+  .transform((value) => value.split("\n").map((glob) => glob.trim()).filter(Boolean));
+
+const refSchema = z
+  .string()
+  .trim()
+  // Passed to git as an argument, so no options or whitespace
+  .regex(/^$|^(?!-)[\w./@^~{}-]+$/, "Must be a branch, tag or commit SHA")
+  .optional()
+  .transform((value) => value || undefined);
+
+// Normalized to "a/b"; must stay inside the submitted code
+const subpathSchema = z
+  .string()
+  .optional()
+  .transform((value) => path.posix.normalize((value ?? "").trim().replace(/\\/g, "/")).replace(/\/+$/, ""))
+  .refine((value) => !value.startsWith("/") && value !== ".." && !value.startsWith("../"), {
+    message: "Must be a relative path inside the code",
+  })
+  .transform((value) => (value === "." || value === "" ? undefined : value));
+
+// Credential fields are never stored or logged, only handed to git
+const secretSchema = z
+  .string()
+  .optional()
+  .transform((value) => (value?.trim() ? value.trim() : undefined));
+
 const analyzeRequestSchema = z.object({
   analysis_mode: z.enum(["quick", "standard", "deep"]).default("standard"),
-  repo_url: z.string().url().optional().or(z.literal("")),
+  // A URL, or git's scp-like SSH syntax such as git@github.com:org/repo.git
+  repo_url: z.string().url().or(z.string().regex(/^[\w.-]+@[\w.-]+:[\w./~-]+$/)).optional().or(z.literal("")),
+  // Multipart fields are strings
+  bypass_cache: z.enum(["true", "false"]).default("false").transform((value) => value === "true"),
+  baseline_job_id: z.string().optional(),
+  // One glob per line
+  include: globListSchema,
+  exclude: globListSchema,
+  // Branch, tag or full commit SHA of repo_url
+  ref: refSchema,
+  // Directory inside the repository or ZIP to analyze
+  subpath: subpathSchema,
+  // HTTPS access token, with an optional username for hosts that need one
+  repo_token: secretSchema,
+  repo_username: secretSchema,
+  // Private key of an SSH deploy key
+  repo_ssh_key: secretSchema,
 });
 
+// Why the credentials in a request cannot be used, if they cannot
+function credentialsError(repoUrl: string | undefined, data: z.infer<typeof analyzeRequestSchema>): string | null {
+  const { repo_token: token, repo_ssh_key: sshKey } = data;
+  if (repoUrl && /^https?:/.test(repoUrl)) {
+    const url = new URL(repoUrl);
+    // The URL is stored with the job, so it must not carry a secret
+    if (url.username || url.password) return "Pass credentials in repo_token instead of repo_url";
+  }
+  if (!token && !sshKey) return null;
+  if (!repoUrl) return "Credentials are only used with repo_url";
+  if (N8N_WEBHOOK) return "Repository credentials are not supported with the n8n workflow";
+  if (token && sshKey) return "Pass either repo_token or repo_ssh_key, not both";
+  if (token && !isHttpsUrl(repoUrl)) return "repo_token only works with https:// repository URLs";
+  if (sshKey && !isSshUrl(repoUrl)) return "repo_ssh_key only works with SSH repository URLs";
+  return null;
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -39,26 +120,69 @@ export async function registerRoutes(
       }
       
       const analysisMode = parsed.data.analysis_mode;
+      const bypassCache = parsed.data.bypass_cache;
+      const { include, exclude, ref, subpath } = parsed.data;
       const repoUrl = parsed.data.repo_url && parsed.data.repo_url.length > 0 ? parsed.data.repo_url : undefined;
       const file = req.file;
 
       if (!file && !repoUrl) {
         return res.status(400).json({ message: "Either code_zip file or repo_url is required" });
       }
+      if (ref && !repoUrl) {
+        return res.status(400).json({ message: "ref is only supported with repo_url" });
+      }
+      const invalidCredentials = credentialsError(repoUrl, parsed.data);
+      if (invalidCredentials) {
+        return res.status(400).json({ message: invalidCredentials });
+      }
+      const credentials = {
+        token: parsed.data.repo_token,
+        username: parsed.data.repo_username,
+        sshKey: parsed.data.repo_ssh_key,
+      };
+
+      let baseline: AnalysisResult | undefined;
+      if (parsed.data.baseline_job_id) {
+        const baselineJob = await storage.getJob(parsed.data.baseline_job_id);
+        if (!baselineJob) {
+          return res.status(404).json({ message: "Baseline job not found" });
+        }
+        if (baselineJob.status !== "completed" || !baselineJob.results) {
+          return res.status(400).json({ message: "Baseline job has not completed" });
+        }
+        // Carried-over issues are only comparable when the same mode produced them
+        if (baselineJob.analysisMode !== analysisMode) {
+          return res.status(400).json({
+            message: `Baseline job used the ${baselineJob.analysisMode} analysis mode, not ${analysisMode}`,
+          });
+        }
+        baseline = baselineJob.results;
+      }
+
+      if (!N8N_WEBHOOK) {
+        jobQueue.assertAccepting();
+      }
 
       const job = await storage.createJob({
         analysisMode,
         repoUrl,
+        ref,
+        subpath,
       });
 
-      await storage.updateJobStatus(job.id, "processing");
-
       if (N8N_WEBHOOK) {
+        await setJobStatus(job.id, "processing");
+
         try {
           const formData = new FormData();
           formData.append("request_id", job.id);
           formData.append("analysis_mode", analysisMode);
           formData.append("repo_url", repoUrl || "");
+          formData.append("ref", ref || "");
+          formData.append("subpath", subpath || "");
+          formData.append("bypass_cache", String(bypassCache));
+          formData.append("include", include.join("\n"));
+          formData.append("exclude", exclude.join("\n"));
           formData.append("callback_url", `${EXTERNAL_BASE}/api/callback`);
           formData.append("callback_secret", CALLBACK_SECRET);
 
@@ -82,31 +206,67 @@ export async function registerRoutes(
           console.error("Error calling n8n webhook:", webhookError);
         }
       } else {
-        (async () => {
+        await setJobStatus(job.id, "queued");
+        const runAnalysis = async (signal: AbortSignal) => {
           try {
+            await setJobStatus(job.id, "processing");
             const analysisResult = await analyzeCode(
               job.id,
-              file?.buffer,
-              repoUrl,
-              analysisMode
+              { zipBuffer: file?.buffer, repoUrl, ref, subpath, credentials },
+              analysisMode,
+              {
+                onProgress: (progress) => jobEvents.publishProgress(job.id, progress),
+                signal,
+                bypassCache,
+                baseline,
+                include,
+                exclude,
+              }
             );
-            await storage.updateJobStatus(job.id, "completed", analysisResult);
+            // A cancel can arrive during any of these awaits and must stay
+            // the final status
+            signal.throwIfAborted();
+            if (analysisResult.source?.commit_sha) {
+              await storage.setJobCommit(job.id, analysisResult.source.commit_sha);
+              signal.throwIfAborted();
+            }
+            await setJobStatus(job.id, "completed", analysisResult);
+            if (signal.aborted) {
+              // The cancel endpoint's write may have landed before ours
+              await setJobStatus(job.id, "cancelled");
+            }
           } catch (error) {
+            if (signal.aborted) {
+              console.log(`Analysis ${job.id} cancelled`);
+              await setJobStatus(job.id, "cancelled");
+              return;
+            }
             console.error("Analysis failed:", error);
-            await storage.updateJobStatus(job.id, "failed", {
-              request_id: job.id,
-              status: "failed",
-              summary: { languages: [], total_files_analyzed: 0, issues_count: { critical: 0, major: 0, minor: 0 } },
-              issues: [],
-              patches: [],
-              refactoredFiles: []
-            });
+            await setJobStatus(
+              job.id,
+              "failed",
+              failedResult(
+                job.id,
+                error instanceof RepoConfigError || error instanceof SourceError ? error.message : undefined
+              )
+            );
           }
-        })();
+        };
+
+        try {
+          jobQueue.enqueue(job.id, runAnalysis);
+        } catch (error) {
+          // The queue filled up or started draining since the check above
+          await setJobStatus(job.id, "failed", failedResult(job.id));
+          throw error;
+        }
       }
 
       res.json({ request_id: job.id });
     } catch (error) {
+      if (error instanceof QueueUnavailableError) {
+        return res.status(503).json({ message: error.message });
+      }
       console.error("Error in /api/analyze:", error);
       res.status(500).json({ message: "Internal server error" });
     }
@@ -133,8 +293,12 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Job not found" });
       }
 
+      if (job.status === "cancelled") {
+        return res.status(409).json({ message: "Job was cancelled" });
+      }
+
       const newStatus = status === "completed" ? "completed" : status === "failed" ? "failed" : job.status;
-      await storage.updateJobStatus(request_id, newStatus as "completed" | "failed" | "pending" | "processing", results);
+      await setJobStatus(request_id, newStatus, results);
 
       res.json({ success: true });
     } catch (error) {
@@ -152,13 +316,216 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Job not found" });
       }
 
-      res.json(job);
+      res.json({
+        ...job,
+        queuePosition: jobQueue.position(job.id),
+        progress: jobEvents.getProgress(job.id),
+      });
     } catch (error) {
       console.error("Error in /api/status:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
+  app.get("/api/jobs", async (req, res) => {
+    try {
+      const parsed = jobListQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid query",
+          errors: parsed.error.flatten().fieldErrors
+        });
+      }
+
+      const page = await storage.listJobs(parsed.data);
+      res.json(page);
+    } catch (error) {
+      console.error("Error in /api/jobs:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/jobs/:id/cancel", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const job = await storage.getJob(id);
+
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      if (isTerminalStatus(job.status)) {
+        return res.status(409).json({ message: `Job already ${job.status}` });
+      }
+
+      // Queued jobs are dropped; running ones are aborted and stop at the next
+      // clone, subprocess or LLM call. Jobs sent to n8n are only marked.
+      jobQueue.cancel(id);
+      const updated = await setJobStatus(id, "cancelled");
+
+      res.json({ id, status: updated?.status ?? "cancelled" });
+    } catch (error) {
+      console.error("Error in /api/jobs/:id/cancel:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/jobs/:id/hunks", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const parsed = hunkDecisionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          message: "Invalid request",
+          errors: parsed.error.flatten().fieldErrors
+        });
+      }
+
+      const job = await storage.getJob(id);
+
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      if (job.status !== "completed" || !job.results) {
+        return res.status(400).json({ message: "Analysis not completed yet" });
+      }
+
+      const { file, hunk, decision } = parsed.data;
+      const refactored = (job.results.refactoredFiles || []).find((f: any) => f.file === file);
+
+      if (!refactored) {
+        return res.status(404).json({ message: "Refactored file not found" });
+      }
+
+      if (hunk >= countHunks(refactored)) {
+        return res.status(400).json({ message: `File ${file} has no hunk ${hunk}` });
+      }
+
+      const rejected = new Set<number>(refactored.rejectedHunks ?? []);
+      if (decision === "reject") {
+        rejected.add(hunk);
+      } else {
+        rejected.delete(hunk);
+      }
+
+      const updated = await storage.setRejectedHunks(id, file, Array.from(rejected).sort((a, b) => a - b));
+      if (!updated) {
+        return res.status(404).json({ message: "Refactored file not found" });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error in /api/jobs/:id/hunks:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Baseline file accepting every current finding; commit it to the repository
+  // root to suppress them in later analyses
+  app.post("/api/jobs/:id/baseline", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const job = await storage.getJob(id);
+
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      if (job.status !== "completed" || !job.results) {
+        return res.status(400).json({ message: "Analysis not completed yet" });
+      }
+
+      res.setHeader("Content-Type", "application/json");
+      res.setHeader("Content-Disposition", `attachment; filename="${BASELINE_FILE}"`);
+      res.send(JSON.stringify(createBaseline(job.results), null, 2) + "\n");
+    } catch (error) {
+      console.error("Error in /api/jobs/:id/baseline:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/jobs/:id/events", async (req, res) => {
+    const { id } = req.params;
+    const pending: JobEvent[] = [];
+    let send = (event: JobEvent) => {
+      pending.push(event);
+    };
+
+    // Subscribe before reading the job so no status change is missed in between
+    const unsubscribe = jobEvents.subscribe(id, (event) => send(event));
+    let heartbeat: NodeJS.Timeout | undefined;
+    const close = () => {
+      unsubscribe();
+      if (heartbeat) clearInterval(heartbeat);
+      res.end();
+    };
+
+    try {
+      const job = await storage.getJob(id);
+      if (!job) {
+        unsubscribe();
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+
+      send = (event) => {
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+        if (event.type === "status" && isTerminalStatus(event.data.status)) {
+          close();
+        }
+      };
+
+      send({ type: "status", data: { status: job.status } });
+      if (isTerminalStatus(job.status)) return;
+
+      const progress = jobEvents.getProgress(id);
+      if (progress) send({ type: "progress", data: progress });
+      for (const event of pending.splice(0)) {
+        if (!res.writableEnded) send(event);
+      }
+      if (res.writableEnded) return;
+
+      heartbeat = setInterval(() => res.write(": ping\n\n"), 15000);
+      req.on("close", close);
+    } catch (error) {
+      console.error("Error in /api/jobs/:id/events:", error);
+      unsubscribe();
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Internal server error" });
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  app.get("/api/compare/:baseId/:headId", async (req, res) => {
+    try {
+      const { baseId, headId } = req.params;
+      const [base, head] = await Promise.all([storage.getJob(baseId), storage.getJob(headId)]);
+
+      if (!base || !head) {
+        return res.status(404).json({ message: `Job ${base ? headId : baseId} not found` });
+      }
+
+      for (const job of [base, head]) {
+        if (job.status !== "completed" || !job.results) {
+          return res.status(400).json({ message: `Analysis ${job.id} not completed yet` });
+        }
+      }
+
+      res.json(compareResults(base.results, head.results));
+    } catch (error) {
+      console.error("Error in /api/compare:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   app.get("/api/download/:requestId/markdown", async (req, res) => {
     try {
       const { requestId } = req.params;
@@ -205,6 +572,58 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/download/:requestId/html", async (req, res) => {
+    try {
+      const { requestId } = req.params;
+      const job = await storage.getJob(requestId);
+
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      if (job.status !== "completed" || !job.results) {
+        return res.status(400).json({ message: "Analysis not completed yet" });
+      }
+
+      // Results posted to /api/callback are not validated on the way in
+      const results = analysisResultSchema.safeParse(job.results);
+      if (!results.success) {
+        return res.status(422).json({ message: "Analysis results are not in the expected format" });
+      }
+
+      const report = generateHTMLReport(results.data);
+      res.setHeader("Content-Type", "text/html; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="analysis-${requestId}.html"`);
+      res.send(report);
+    } catch (error) {
+      console.error("Error in /api/download/html:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/download/:requestId/sarif", async (req, res) => {
+    try {
+      const { requestId } = req.params;
+      const job = await storage.getJob(requestId);
+
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      if (job.status !== "completed" || !job.results) {
+        return res.status(400).json({ message: "Analysis not completed yet" });
+      }
+
+      const sarif = generateSARIF(job.results);
+      res.setHeader("Content-Type", "application/sarif+json");
+      res.setHeader("Content-Disposition", `attachment; filename="analysis-${requestId}.sarif"`);
+      res.send(sarif);
+    } catch (error) {
+      console.error("Error in /api/download/sarif:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   app.get("/api/download/:requestId/refactored", async (req, res) => {
     try {
       const { requestId } = req.params;
@@ -224,6 +643,9 @@ export async function registerRoutes(
         return res.status(400).json({ message: "No refactored files available" });
       }
 
+      // Rejected hunks are reverted to the original code
+      const files = acceptedFiles(refactoredFiles);
+
       res.setHeader("Content-Type", "application/zip");
       res.setHeader("Content-Disposition", `attachment; filename="refactored-code-${requestId}.zip"`);
 
@@ -236,7 +658,7 @@ export async function registerRoutes(
 
       archive.pipe(res);
 
-      for (const file of refactoredFiles) {
+      for (const file of files) {
         archive.append(file.refactored, { name: file.file });
       }
 
@@ -247,5 +669,35 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/download/:requestId/patch", async (req, res) => {
+    try {
+      const { requestId } = req.params;
+      const job = await storage.getJob(requestId);
+
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      if (job.status !== "completed" || !job.results) {
+        return res.status(400).json({ message: "Analysis not completed yet" });
+      }
+
+      // Rebuilt from the refactored files so only accepted hunks are included,
+      // and results delivered by the n8n callback without patches work too
+      const patches = createPatches(acceptedFiles(job.results.refactoredFiles || []));
+
+      if (patches.length === 0) {
+        return res.status(400).json({ message: "No refactoring changes available" });
+      }
+
+      res.setHeader("Content-Type", "text/x-diff");
+      res.setHeader("Content-Disposition", `attachment; filename="refactored-code-${requestId}.patch"`);
+      res.send(generatePatch(patches));
+    } catch (error) {
+      console.error("Error in /api/download/patch:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   return httpServer;
 }
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import type { Log } from "sarif";
+import type { AnalysisResult } from "@shared/schema";
+import { generateSARIF } from "./sarif";
+
+const result: AnalysisResult = {
+  request_id: "req-1",
+  status: "completed",
+  issues: [
+    { severity: "critical", file: "a.js", line: 2, message: "No var", rule: "eslint/no-var", analyzer: "eslint" },
+    { severity: "minor", file: "b.py", line: 0, message: "Long", rule: "", analyzer: "python", suggestion: "Split" },
+    { severity: "major", file: "a.js", line: 9, message: "No var", rule: "eslint/no-var", analyzer: "eslint" },
+  ],
+  suppressed: [
+    { severity: "major", file: "a.js", line: 5, message: "eval", rule: "no-eval", suppressed_by: "inline" },
+    { severity: "minor", file: "c.js", line: 1, message: "old", rule: "no-old", suppressed_by: "baseline" },
+  ],
+  patches: [],
+  refactoredFiles: [
+    { file: "a.js", original: "// head\nvar a = 1;\nfoo();\n", refactored: "// head\nlet a = 1;\nfoo();\n" },
+  ],
+};
+
+function run(analysis: AnalysisResult) {
+  const log = JSON.parse(generateSARIF(analysis)) as Log;
+  expect(log.version).toBe("2.1.0");
+  expect(log.runs).toHaveLength(1);
+  return log.runs[0];
+}
+
+describe("generateSARIF", () => {
+  it("lists each distinct rule once and points results at their rule", () => {
+    const { tool, results } = run(result);
+
+    expect(tool.driver.rules?.map((rule) => rule.id)).toEqual([
+      "eslint/no-var",
+      "python/issue",
+      "no-eval",
+      "no-old",
+    ]);
+    expect(results?.map((entry) => [entry.ruleId, entry.ruleIndex])).toEqual([
+      ["eslint/no-var", 0],
+      ["python/issue", 1],
+      ["eslint/no-var", 0],
+      ["no-eval", 2],
+      ["no-old", 3],
+    ]);
+  });
+
+  it("maps severities to levels and keeps lines at least 1", () => {
+    const results = run(result).results!;
+
+    expect(results.map((entry) => entry.level)).toEqual(["error", "note", "warning", "warning", "note"]);
+    expect(results[1].locations?.[0].physicalLocation?.region?.startLine).toBe(1);
+    expect(results[1].message.text).toBe("Long\n\nSuggestion: Split");
+  });
+
+  it("marks suppressed issues by where they were suppressed", () => {
+    const results = run(result).results!;
+
+    expect(results.map((entry) => entry.suppressions)).toEqual([
+      undefined,
+      undefined,
+      undefined,
+      [{ kind: "inSource" }],
+      [{ kind: "external" }],
+    ]);
+  });
+
+  it("attaches the accepted refactoring covering the reported line as a fix", () => {
+    const [onRefactoredLine, , elsewhere] = run(result).results!;
+
+    expect(onRefactoredLine.fixes?.[0].artifactChanges[0].replacements).toEqual([
+      {
+        deletedRegion: { startLine: 1, endLine: 3 },
+        insertedContent: { text: "// head\nlet a = 1;\nfoo();" },
+      },
+    ]);
+    expect(elsewhere.fixes).toBeUndefined();
+
+    const rejected = run({
+      ...result,
+      refactoredFiles: [{ ...result.refactoredFiles![0], rejectedHunks: [0] }],
+    });
+    expect(rejected.results![0].fixes).toBeUndefined();
+  });
+
+  it("prefixes paths with the analyzed subdirectory and records the commit", () => {
+    const { results, versionControlProvenance } = run({
+      ...result,
+      source: {
+        repo_url: "https://github.com/org/repo",
+        ref: "main",
+        commit_sha: "abc123",
+        subpath: "services/api",
+      },
+    });
+
+    expect(results![0].locations?.[0].physicalLocation?.artifactLocation).toEqual({
+      uri: "services/api/a.js",
+      uriBaseId: "%SRCROOT%",
+    });
+    expect(results![0].fixes?.[0].artifactChanges[0].artifactLocation.uri).toBe("services/api/a.js");
+    expect(versionControlProvenance).toEqual([
+      { repositoryUri: "https://github.com/org/repo", revisionId: "abc123" },
+    ]);
+  });
+});
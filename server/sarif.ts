@@ -0,0 +1,116 @@
+import type { Fix, Log, ReportingDescriptor, Result } from "sarif";
+import type { AnalysisResult, SuppressedIssue } from "@shared/schema";
+import { acceptedReplacements, type LineReplacement } from "./diff";
+
+type Issue = NonNullable<AnalysisResult["issues"]>[number];
+const levels: Record<Issue["severity"], Result.level> = {
+  critical: "error",
+  major: "warning",
+  minor: "note",
+};
+
+function ruleId(issue: Issue): string {
+  return issue.rule || `${issue.analyzer ?? "scripto"}/issue`;
+}
+
+// The accepted refactoring hunk touching the reported line, as a SARIF fix
+function fixFor(issue: Issue, uri: string, replacements: LineReplacement[] | undefined): Fix[] | undefined {
+  const replacement = replacements?.find(
+    ({ startLine, endLine }) => issue.line >= startLine && issue.line <= endLine
+  );
+  if (!replacement) return undefined;
+
+  return [
+    {
+      description: { text: issue.suggestion || "Apply the refactored code" },
+      artifactChanges: [
+        {
+          artifactLocation: { uri, uriBaseId: "%SRCROOT%" },
+          replacements: [
+            {
+              deletedRegion: { startLine: replacement.startLine, endLine: replacement.endLine },
+              insertedContent: { text: replacement.text },
+            },
+          ],
+        },
+      ],
+    },
+  ];
+}
+
+// SARIF 2.1.0 log with a single run. Rules are the distinct `Issue.rule`
+// values; file paths are relative to the repository root, also when only a
+// subdirectory was analyzed. Suppressed issues are included with a SARIF
+// suppression so viewers can hide them.
+export function generateSARIF(result: AnalysisResult): string {
+  const issues: Array<Issue & Partial<Pick<SuppressedIssue, "suppressed_by">>> = [
+    ...(result.issues || []),
+    ...(result.suppressed || []),
+  ];
+  const replacementsByFile = new Map(
+    (result.refactoredFiles || []).map((file) => [file.file, acceptedReplacements(file)])
+  );
+
+  const subpath = result.source?.subpath;
+  const uriFor = (file: string) => (subpath ? `${subpath}/${file}` : file);
+
+  const ruleIndexes = new Map<string, number>();
+  const rules: ReportingDescriptor[] = [];
+  for (const issue of issues) {
+    const id = ruleId(issue);
+    if (ruleIndexes.has(id)) continue;
+    ruleIndexes.set(id, rules.length);
+    rules.push({
+      id,
+      shortDescription: { text: id },
+      properties: issue.analyzer ? { analyzer: issue.analyzer } : undefined,
+    });
+  }
+
+  const results = issues.map((issue): Result => {
+    const id = ruleId(issue);
+    return {
+      ruleId: id,
+      ruleIndex: ruleIndexes.get(id),
+      level: levels[issue.severity] ?? "note",
+      message: {
+        text: issue.suggestion ? `${issue.message}\n\nSuggestion: ${issue.suggestion}` : issue.message,
+      },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: uriFor(issue.file), uriBaseId: "%SRCROOT%" },
+            region: { startLine: Math.max(1, issue.line) },
+          },
+        },
+      ],
+      fixes: fixFor(issue, uriFor(issue.file), replacementsByFile.get(issue.file)),
+      suppressions: issue.suppressed_by
+        ? [{ kind: issue.suppressed_by === "inline" ? "inSource" : "external" }]
+        : undefined,
+      properties: { severity: issue.severity },
+    };
+  });
+
+  const log: Log = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "ScriptoAI",
+            rules,
+          },
+        },
+        automationDetails: { id: `scripto/${result.request_id}` },
+        versionControlProvenance: result.source?.repo_url
+          ? [{ repositoryUri: result.source.repo_url, revisionId: result.source.commit_sha }]
+          : undefined,
+        results,
+      },
+    ],
+  };
+
+  return JSON.stringify(log, null, 2);
+}
@@ -0,0 +1,203 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as schema from "@shared/schema";
+import { jobListQuerySchema, type JobListQuery } from "@shared/schema";
+import { DbStorage, MemStorage, type IStorage } from "./storage";
+import { emptyTestDb } from "./test-db";
+
+function query(params: Partial<Record<keyof JobListQuery, unknown>> = {}): JobListQuery {
+  return jobListQuerySchema.parse(params);
+}
+
+const result = {
+  request_id: "ignored",
+  status: "completed",
+  summary: {
+    languages: ["javascript"],
+    total_files_analyzed: 2,
+    issues_count: { critical: 2, major: 1, minor: 0 },
+  },
+  issues: [
+    { severity: "critical", file: "a.js", line: 3, message: "eval", rule: "no-eval", analyzer: "eslint" },
+    { severity: "major", file: "b.js", line: 1, message: "var", suggestion: "use let" },
+  ],
+  patches: [],
+  refactoredFiles: [
+    { file: "a.js", original: "var a\n", refactored: "let a\n", validation: { status: "valid" } },
+  ],
+  skipped: [{ file: "dist/", reason: "gitignore" }],
+};
+
+const backends: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DbStorage on PGlite", async () => new DbStorage(await emptyTestDb())],
+];
+
+describe.each(backends)("%s", (_name, create) => {
+  let storage: IStorage;
+
+  beforeEach(async () => {
+    storage = await create();
+    vi.useFakeTimers({ toFake: ["Date"] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function createJobAt(time: string, data: Partial<schema.InsertAnalysisJob> = {}) {
+    vi.setSystemTime(new Date(time));
+    return storage.createJob({ analysisMode: "standard", ...data });
+  }
+
+  it("creates jobs and reads them back", async () => {
+    const job = await createJobAt("2026-01-01T00:00:00Z", {
+      repoUrl: "https://github.com/org/repo",
+      ref: "main",
+      subpath: "services/api",
+    });
+
+    expect(job).toMatchObject({ status: "pending", ref: "main", subpath: "services/api" });
+    expect(await storage.getJob(job.id)).toMatchObject({
+      id: job.id,
+      repoUrl: "https://github.com/org/repo",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      results: undefined,
+    });
+    expect(await storage.getJob("req-missing")).toBeUndefined();
+  });
+
+  it("stores results across updates and keeps them on status-only updates", async () => {
+    const job = await createJobAt("2026-01-01T00:00:00Z");
+    await storage.updateJobStatus(job.id, "processing");
+    await storage.updateJobStatus(job.id, "completed", result);
+    const updated = await storage.updateJobStatus(job.id, "completed");
+
+    expect(updated?.status).toBe("completed");
+    expect(updated?.results).toMatchObject({
+      summary: result.summary,
+      issues: [
+        { severity: "critical", file: "a.js", line: 3, rule: "no-eval", analyzer: "eslint" },
+        { severity: "major", file: "b.js", line: 1, suggestion: "use let" },
+      ],
+      refactoredFiles: [{ file: "a.js", refactored: "let a\n", validation: { status: "valid" } }],
+      skipped: [{ file: "dist/", reason: "gitignore" }],
+    });
+    expect(await storage.updateJobStatus("req-missing", "failed")).toBeUndefined();
+  });
+
+  it("records the resolved commit", async () => {
+    const job = await createJobAt("2026-01-01T00:00:00Z", { repoUrl: "https://github.com/org/repo" });
+    await storage.setJobCommit(job.id, "a".repeat(40));
+
+    expect((await storage.getJob(job.id))?.commitSha).toBe("a".repeat(40));
+    expect(await storage.setJobCommit("req-missing", "b".repeat(40))).toBeUndefined();
+  });
+
+  it("replaces the rejected hunks of one file", async () => {
+    const job = await createJobAt("2026-01-01T00:00:00Z");
+    await storage.updateJobStatus(job.id, "completed", result);
+
+    await storage.setRejectedHunks(job.id, "a.js", [0, 2]);
+    await storage.setRejectedHunks(job.id, "a.js", [1]);
+
+    const files = (await storage.getJob(job.id))?.results?.refactoredFiles;
+    expect(files).toHaveLength(1);
+    expect(files?.[0].rejectedHunks).toEqual([1]);
+  });
+
+  it("rejects hunks only for refactored files the job has", async () => {
+    const pending = await createJobAt("2026-01-01T00:00:00Z");
+    const completed = await createJobAt("2026-01-02T00:00:00Z");
+    await storage.updateJobStatus(completed.id, "completed", result);
+
+    expect(await storage.setRejectedHunks(pending.id, "a.js", [0])).toBeUndefined();
+    expect(await storage.setRejectedHunks(completed.id, "b.js", [0])).toBeUndefined();
+    expect(await storage.setRejectedHunks("req-missing", "a.js", [0])).toBeUndefined();
+    expect((await storage.getJob(completed.id))?.results?.refactoredFiles?.[0].rejectedHunks ?? []).toEqual([]);
+  });
+
+  describe("listJobs", () => {
+    it("filters by status, mode, repository, dates and critical issues", async () => {
+      const old = await createJobAt("2026-01-01T00:00:00Z", { repoUrl: "https://github.com/Org/API" });
+      const quick = await createJobAt("2026-01-02T00:00:00Z", { analysisMode: "quick" });
+      const critical = await createJobAt("2026-01-03T00:00:00Z", { repoUrl: "https://gitlab.com/org/web" });
+      await storage.updateJobStatus(critical.id, "completed", result);
+      await storage.updateJobStatus(quick.id, "failed");
+
+      const ids = async (params: Parameters<typeof query>[0]) =>
+        (await storage.listJobs(query(params))).jobs.map((job) => job.id);
+
+      expect(await ids({})).toEqual([critical.id, quick.id, old.id]);
+      expect(await ids({ status: "failed" })).toEqual([quick.id]);
+      expect(await ids({ analysis_mode: "quick" })).toEqual([quick.id]);
+      expect(await ids({ repo_url: "org/api" })).toEqual([old.id]);
+      expect(await ids({ created_after: "2026-01-02T00:00:00Z" })).toEqual([critical.id, quick.id]);
+      expect(await ids({ created_before: "2026-01-02T00:00:00Z" })).toEqual([quick.id, old.id]);
+      expect(await ids({ min_critical: "2" })).toEqual([critical.id]);
+      expect(await ids({ min_critical: "3" })).toEqual([]);
+    });
+
+    it("matches the repository filter literally, without LIKE wildcards", async () => {
+      const underscore = await createJobAt("2026-01-01T00:00:00Z", { repoUrl: "https://github.com/org/my_repo" });
+      await createJobAt("2026-01-02T00:00:00Z", { repoUrl: "https://github.com/org/myXrepo" });
+      const percent = await createJobAt("2026-01-03T00:00:00Z", { repoUrl: "https://github.com/org/100%-done" });
+      await createJobAt("2026-01-04T00:00:00Z", { repoUrl: "https://github.com/org/1000-done" });
+      const backslash = await createJobAt("2026-01-05T00:00:00Z", { repoUrl: "C:\\repos\\app" });
+
+      const ids = async (repoUrl: string) =>
+        (await storage.listJobs(query({ repo_url: repoUrl }))).jobs.map((job) => job.id);
+
+      expect(await ids("MY_REPO")).toEqual([underscore.id]);
+      expect(await ids("100%")).toEqual([percent.id]);
+      expect(await ids("\\repos\\")).toEqual([backslash.id]);
+    });
+
+    it("returns summaries without the full results", async () => {
+      const job = await createJobAt("2026-01-01T00:00:00Z");
+      await storage.updateJobStatus(job.id, "completed", result);
+
+      const [summary] = (await storage.listJobs(query())).jobs;
+      expect(summary.summary).toEqual(result.summary);
+      expect(summary).not.toHaveProperty("results");
+    });
+
+    it("pages newest first with a (createdAt, id) cursor", async () => {
+      // Three jobs share a timestamp, so the id has to break the tie
+      const created = [
+        await createJobAt("2026-01-01T00:00:00Z"),
+        await createJobAt("2026-01-02T00:00:00Z"),
+        await createJobAt("2026-01-02T00:00:00Z"),
+        await createJobAt("2026-01-02T00:00:00Z"),
+        await createJobAt("2026-01-03T00:00:00Z"),
+      ];
+      const expected = [...created]
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id))
+        .map((job) => job.id);
+
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await storage.listJobs(query({ limit: "2", cursor }));
+        expect(page.jobs.length).toBeLessThanOrEqual(2);
+        seen.push(...page.jobs.map((job) => job.id));
+        cursor = page.next_cursor ?? undefined;
+        if (cursor) {
+          const last = page.jobs[page.jobs.length - 1];
+          expect(JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"))).toEqual({
+            createdAt: last.createdAt,
+            id: last.id,
+          });
+        }
+      } while (cursor);
+
+      expect(seen).toEqual(expected);
+    });
+
+    it("ignores a malformed cursor", async () => {
+      const job = await createJobAt("2026-01-01T00:00:00Z");
+      const page = await storage.listJobs(query({ cursor: "not-a-cursor" }));
+      expect(page.jobs.map((summary) => summary.id)).toEqual([job.id]);
+      expect(page.next_cursor).toBeNull();
+    });
+  });
+});
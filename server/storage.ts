@@ -1,10 +1,67 @@
 import { randomUUID } from "crypto";
-import type { AnalysisJob, InsertAnalysisJob } from "@shared/schema";
+import { and, asc, desc, eq, gte, ilike, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import type {
+  AnalysisJob,
+  InsertAnalysisJob,
+  JobListQuery,
+  JobListResponse,
+  JobSummary,
+  RefactorValidation,
+} from "@shared/schema";
+import { analysisJobs, analysisIssues, refactoredFiles } from "@shared/schema";
+import { getDb, type Database } from "./db";
 
 export interface IStorage {
   createJob(data: InsertAnalysisJob): Promise<AnalysisJob>;
   getJob(id: string): Promise<AnalysisJob | undefined>;
   updateJobStatus(id: string, status: AnalysisJob["status"], results?: any): Promise<AnalysisJob | undefined>;
+  listJobs(query: JobListQuery): Promise<JobListResponse>;
+  // Record the commit a cloned ref resolved to
+  setJobCommit(id: string, commitSha: string): Promise<AnalysisJob | undefined>;
+  // Replace the rejected hunk indices of one refactored file; undefined when
+  // the job has no such file
+  setRejectedHunks(id: string, file: string, hunks: number[]): Promise<AnalysisJob | undefined>;
+}
+
+// Jobs are listed newest first; the cursor is the (createdAt, id) of the last job on the page
+interface JobCursor {
+  createdAt: string;
+  id: string;
+}
+
+function encodeCursor(job: JobSummary): string {
+  return Buffer.from(JSON.stringify({ createdAt: job.createdAt, id: job.id })).toString("base64url");
+}
+
+function decodeCursor(cursor: string): JobCursor | undefined {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    if (typeof parsed?.createdAt === "string" && typeof parsed?.id === "string") {
+      return parsed;
+    }
+  } catch {
+    // fall through
+  }
+  return undefined;
+}
+
+// LIKE treats % and _ as wildcards and \ as the escape character; escaped,
+// the pattern matches the value literally like MemStorage's substring match
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+function toPage(jobs: JobSummary[], limit: number): JobListResponse {
+  const page = jobs.slice(0, limit);
+  return {
+    jobs: page,
+    next_cursor: jobs.length > limit ? encodeCursor(page[page.length - 1]) : null,
+  };
+}
+
+function toJobSummary(job: AnalysisJob): JobSummary {
+  const { results, ...rest } = job;
+  return { ...rest, summary: results?.summary };
 }
 
 export class MemStorage implements IStorage {
@@ -23,6 +80,8 @@ export class MemStorage implements IStorage {
       createdAt: now,
       updatedAt: now,
       repoUrl: data.repoUrl,
+      ref: data.ref,
+      subpath: data.subpath,
       analysisMode: data.analysisMode,
       results: undefined,
     };
@@ -51,6 +110,292 @@ export class MemStorage implements IStorage {
     this.jobs.set(id, updatedJob);
     return updatedJob;
   }
+
+  async listJobs(query: JobListQuery): Promise<JobListResponse> {
+    const cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+    const repoUrl = query.repo_url?.toLowerCase();
+    const createdAfter = query.created_after && new Date(query.created_after).toISOString();
+    const createdBefore = query.created_before && new Date(query.created_before).toISOString();
+
+    const matching = Array.from(this.jobs.values())
+      .filter((job) => {
+        if (query.status && job.status !== query.status) return false;
+        if (query.analysis_mode && job.analysisMode !== query.analysis_mode) return false;
+        if (repoUrl && !job.repoUrl?.toLowerCase().includes(repoUrl)) return false;
+        if (createdAfter && job.createdAt < createdAfter) return false;
+        if (createdBefore && job.createdAt > createdBefore) return false;
+        if (query.min_critical !== undefined && (job.results?.summary?.issues_count?.critical ?? 0) < query.min_critical) {
+          return false;
+        }
+        return true;
+      })
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id))
+      .filter((job) =>
+        !cursor ||
+        job.createdAt < cursor.createdAt ||
+        (job.createdAt === cursor.createdAt && job.id < cursor.id)
+      )
+      .map(toJobSummary);
+
+    return toPage(matching, query.limit);
+  }
+
+  async setJobCommit(id: string, commitSha: string): Promise<AnalysisJob | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    const updatedJob: AnalysisJob = { ...job, commitSha, updatedAt: new Date().toISOString() };
+    this.jobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async setRejectedHunks(id: string, file: string, hunks: number[]): Promise<AnalysisJob | undefined> {
+    const job = this.jobs.get(id);
+    if (!job?.results?.refactoredFiles?.some((refactored: any) => refactored.file === file)) return undefined;
+
+    const updatedJob: AnalysisJob = {
+      ...job,
+      updatedAt: new Date().toISOString(),
+      results: {
+        ...job.results,
+        refactoredFiles: job.results.refactoredFiles.map((refactored: any) =>
+          refactored.file === file ? { ...refactored, rejectedHunks: hunks } : refactored
+        ),
+      },
+    };
+    this.jobs.set(id, updatedJob);
+    return updatedJob;
+  }
+}
+
+type JobRow = typeof analysisJobs.$inferSelect;
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database = getDb()) {}
+
+  async createJob(data: InsertAnalysisJob): Promise<AnalysisJob> {
+    const id = `req-${randomUUID().slice(0, 8)}`;
+    const now = new Date();
+    const [row] = await this.db
+      .insert(analysisJobs)
+      .values({
+        id,
+        status: "pending",
+        analysisMode: data.analysisMode,
+        repoUrl: data.repoUrl,
+        ref: data.ref,
+        subpath: data.subpath,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+    return this.toJob(row);
+  }
+
+  async getJob(id: string): Promise<AnalysisJob | undefined> {
+    const [row] = await this.db.select().from(analysisJobs).where(eq(analysisJobs.id, id));
+    if (!row) return undefined;
+    return this.toJob(row);
+  }
+
+  async updateJobStatus(
+    id: string,
+    status: AnalysisJob["status"],
+    results?: any
+  ): Promise<AnalysisJob | undefined> {
+    const row = await this.db.transaction(async (tx) => {
+      const values: Partial<JobRow> = { status, updatedAt: new Date() };
+
+      if (results !== undefined) {
+        // Issues and refactored files live in their own tables; the remaining
+        // result fields are kept as-is on the job row
+        const { issues, refactoredFiles: files, summary, ...rest } = results ?? {};
+        values.summary = summary ?? null;
+        values.results = results === null ? null : rest;
+
+        await tx.delete(analysisIssues).where(eq(analysisIssues.jobId, id));
+        await tx.delete(refactoredFiles).where(eq(refactoredFiles.jobId, id));
+
+        if (Array.isArray(issues) && issues.length > 0) {
+          await tx.insert(analysisIssues).values(
+            issues.map((issue: any, position: number) => ({
+              jobId: id,
+              position,
+              severity: issue.severity,
+              file: issue.file,
+              line: issue.line,
+              message: issue.message,
+              rule: issue.rule ?? null,
+              suggestion: issue.suggestion ?? null,
+              analyzer: issue.analyzer ?? null,
+            }))
+          );
+        }
+
+        if (Array.isArray(files) && files.length > 0) {
+          await tx.insert(refactoredFiles).values(
+            files.map((file: any, position: number) => ({
+              jobId: id,
+              position,
+              file: file.file,
+              original: file.original,
+              refactored: file.refactored,
+              rejectedHunks: file.rejectedHunks ?? [],
+              validationStatus: file.validation?.status ?? null,
+              validationError: file.validation?.error ?? null,
+            }))
+          );
+        }
+      }
+
+      const [updated] = await tx
+        .update(analysisJobs)
+        .set(values)
+        .where(eq(analysisJobs.id, id))
+        .returning();
+      return updated;
+    });
+
+    if (!row) return undefined;
+    return this.toJob(row);
+  }
+
+  async listJobs(query: JobListQuery): Promise<JobListResponse> {
+    const conditions: SQL[] = [];
+    const cursor = query.cursor ? decodeCursor(query.cursor) : undefined;
+
+    if (query.status) conditions.push(eq(analysisJobs.status, query.status));
+    if (query.analysis_mode) conditions.push(eq(analysisJobs.analysisMode, query.analysis_mode));
+    if (query.repo_url) conditions.push(ilike(analysisJobs.repoUrl, `%${escapeLike(query.repo_url)}%`));
+    if (query.created_after) conditions.push(gte(analysisJobs.createdAt, new Date(query.created_after)));
+    if (query.created_before) conditions.push(lte(analysisJobs.createdAt, new Date(query.created_before)));
+    if (query.min_critical !== undefined) {
+      conditions.push(
+        sql`coalesce((${analysisJobs.summary}->'issues_count'->>'critical')::int, 0) >= ${query.min_critical}`
+      );
+    }
+    if (cursor) {
+      const cursorDate = new Date(cursor.createdAt);
+      conditions.push(
+        or(
+          lt(analysisJobs.createdAt, cursorDate),
+          and(eq(analysisJobs.createdAt, cursorDate), lt(analysisJobs.id, cursor.id))
+        )!
+      );
+    }
+
+    const rows = await this.db
+      .select()
+      .from(analysisJobs)
+      .where(and(...conditions))
+      .orderBy(desc(analysisJobs.createdAt), desc(analysisJobs.id))
+      .limit(query.limit + 1);
+
+    return toPage(rows.map((row) => this.toJobSummary(row)), query.limit);
+  }
+
+  async setJobCommit(id: string, commitSha: string): Promise<AnalysisJob | undefined> {
+    const [row] = await this.db
+      .update(analysisJobs)
+      .set({ commitSha, updatedAt: new Date() })
+      .where(eq(analysisJobs.id, id))
+      .returning();
+    if (!row) return undefined;
+    return this.toJob(row);
+  }
+
+  async setRejectedHunks(id: string, file: string, hunks: number[]): Promise<AnalysisJob | undefined> {
+    const row = await this.db.transaction(async (tx) => {
+      const files = await tx
+        .update(refactoredFiles)
+        .set({ rejectedHunks: hunks })
+        .where(and(eq(refactoredFiles.jobId, id), eq(refactoredFiles.file, file)))
+        .returning({ file: refactoredFiles.file });
+      if (files.length === 0) return undefined;
+
+      const [updated] = await tx
+        .update(analysisJobs)
+        .set({ updatedAt: new Date() })
+        .where(eq(analysisJobs.id, id))
+        .returning();
+      return updated;
+    });
+
+    if (!row) return undefined;
+    return this.toJob(row);
+  }
+
+  private toJobSummary(row: JobRow): JobSummary {
+    return {
+      id: row.id,
+      status: row.status as AnalysisJob["status"],
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+      repoUrl: row.repoUrl ?? undefined,
+      ref: row.ref ?? undefined,
+      commitSha: row.commitSha ?? undefined,
+      subpath: row.subpath ?? undefined,
+      analysisMode: row.analysisMode as AnalysisJob["analysisMode"],
+      summary: (row.summary as JobSummary["summary"]) ?? undefined,
+    };
+  }
+
+  private async toJob(row: JobRow): Promise<AnalysisJob> {
+    const { summary: _summary, ...rest } = this.toJobSummary(row);
+    const job: AnalysisJob = { ...rest, results: undefined };
+
+    if (row.results === null) return job;
+
+    const issueRows = await this.db
+      .select()
+      .from(analysisIssues)
+      .where(eq(analysisIssues.jobId, row.id))
+      .orderBy(asc(analysisIssues.position));
+    const fileRows = await this.db
+      .select()
+      .from(refactoredFiles)
+      .where(eq(refactoredFiles.jobId, row.id))
+      .orderBy(asc(refactoredFiles.position));
+
+    job.results = {
+      ...(row.results as Record<string, unknown>),
+      summary: row.summary ?? undefined,
+      issues: issueRows.map((issue) => ({
+        severity: issue.severity,
+        file: issue.file,
+        line: issue.line,
+        message: issue.message,
+        rule: issue.rule ?? undefined,
+        suggestion: issue.suggestion ?? undefined,
+        analyzer: issue.analyzer ?? undefined,
+      })),
+      refactoredFiles: fileRows.map((file) => ({
+        file: file.file,
+        original: file.original,
+        refactored: file.refactored,
+        rejectedHunks: file.rejectedHunks,
+        validation: file.validationStatus
+          ? {
+              status: file.validationStatus as RefactorValidation["status"],
+              error: file.validationError ?? undefined,
+            }
+          : undefined,
+      })),
+    };
+    return job;
+  }
+}
+
+function createStorage(): IStorage {
+  const backend = process.env.STORAGE_BACKEND || "memory";
+  switch (backend) {
+    case "memory":
+      return new MemStorage();
+    case "postgres":
+      return new DbStorage();
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}", expected "memory" or "postgres"`);
+  }
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import type { AnalysisIssue, AnalysisResult } from "@shared/schema";
+import {
+  BASELINE_FILE,
+  applySuppressions,
+  createBaseline,
+  parseSuppressions,
+  readBaselineFile,
+  ruleMatches,
+  scopeBaseline,
+} from "./suppression";
+
+function issue(line: number, rule: string, message = "message", file = "a.js"): AnalysisIssue {
+  return { severity: "major", file, line, rule, message };
+}
+
+function rules(content: string) {
+  return Object.fromEntries(
+    Array.from(parseSuppressions(content).entries()).map(([line, set]) => [line, set && Array.from(set).sort()])
+  );
+}
+
+describe("parseSuppressions", () => {
+  it("covers the comment's own line or the next one", () => {
+    expect(rules("eval(x); // scripto-ignore\n// scripto-ignore-next-line\nvar a;")).toEqual({ 1: null, 3: null });
+  });
+
+  it("reads rule lists after //, # and /* markers", () => {
+    const content = [
+      "eval(x); // scripto-ignore: eslint/no-eval",
+      "import os  # scripto-ignore: F401, E501",
+      "/* scripto-ignore-next-line: no-var */",
+      "var a;",
+    ].join("\n");
+
+    expect(rules(content)).toEqual({ 1: ["eslint/no-eval"], 2: ["E501", "F401"], 4: ["no-var"] });
+  });
+
+  it("treats text after the rule list as a reason", () => {
+    const content = [
+      "eval(x); // scripto-ignore: no-eval legacy plugin loader",
+      "// scripto-ignore-next-line: no-var, @typescript-eslint/no-explicit-any because of the old API",
+      "var a: any;",
+    ].join("\n");
+
+    expect(rules(content)).toEqual({ 1: ["no-eval"], 3: ["@typescript-eslint/no-explicit-any", "no-var"] });
+  });
+
+  it("merges comments for the same line and lets a bare comment win", () => {
+    const content = [
+      "// scripto-ignore-next-line: no-var",
+      "var a; // scripto-ignore: no-eval",
+      "// scripto-ignore-next-line",
+      "x; // scripto-ignore: no-var",
+    ].join("\n");
+
+    expect(rules(content)).toEqual({ 2: ["no-eval", "no-var"], 4: null });
+  });
+
+  it("ignores the marker outside comments", () => {
+    expect(rules('const text = "scripto-ignore";')).toEqual({});
+  });
+});
+
+describe("ruleMatches", () => {
+  it("matches with or without the analyzer prefix", () => {
+    expect(ruleMatches("eslint/no-var", "eslint/no-var")).toBe(true);
+    expect(ruleMatches("eslint/no-var", "no-var")).toBe(true);
+    expect(ruleMatches("no-var", "no-var")).toBe(true);
+    expect(ruleMatches("eslint/no-var", "pylint/no-var")).toBe(false);
+    expect(ruleMatches("eslint/no-var", "var")).toBe(false);
+    expect(ruleMatches(undefined, "no-var")).toBe(false);
+  });
+});
+
+describe("applySuppressions", () => {
+  it("hides inline-suppressed issues", () => {
+    const sources = new Map([["a.js", "eval(x); // scripto-ignore: no-eval\nvar a;"]]);
+    const issues = [issue(1, "eslint/no-eval"), issue(1, "eslint/no-undef"), issue(2, "eslint/no-var")];
+
+    const { issues: kept, suppressed } = applySuppressions(issues, sources, null);
+
+    expect(kept.map((i) => i.rule)).toEqual(["eslint/no-undef", "eslint/no-var"]);
+    expect(suppressed).toEqual([{ ...issues[0], suppressed_by: "inline" }]);
+  });
+
+  it("hides baseline issues that moved, but not reworded or new ones", () => {
+    const baseline = {
+      version: 1 as const,
+      issues: [
+        { file: "a.js", line: 3, rule: "eslint/no-var", message: "Unexpected var" },
+        { file: "a.js", line: 8, rule: "eslint/no-eval", message: "eval is evil" },
+      ],
+    };
+    const issues = [
+      issue(40, "eslint/no-var", "Unexpected var"),
+      issue(8, "eslint/no-eval", "eval can be harmful"),
+      issue(9, "eslint/no-var", "Unexpected var", "b.js"),
+    ];
+
+    const { issues: kept, suppressed } = applySuppressions(issues, new Map(), baseline);
+
+    expect(kept).toEqual([issues[1], issues[2]]);
+    expect(suppressed).toEqual([{ ...issues[0], suppressed_by: "baseline" }]);
+  });
+
+  it("matches each baseline entry at most once", () => {
+    const baseline = { version: 1 as const, issues: [{ file: "a.js", line: 1, rule: "eslint/no-var", message: "m" }] };
+    const issues = [issue(1, "eslint/no-var", "m"), issue(2, "eslint/no-var", "m")];
+
+    const { issues: kept, suppressed } = applySuppressions(issues, new Map(), baseline);
+
+    expect(kept).toEqual([issues[1]]);
+    expect(suppressed).toHaveLength(1);
+  });
+});
+
+describe("baseline files", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "scripto-baseline-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("reads a valid baseline and ignores a missing or invalid one", async () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(await readBaselineFile(dir)).toBeNull();
+
+    await fs.writeFile(path.join(dir, BASELINE_FILE), JSON.stringify({ version: 2, issues: [] }));
+    expect(await readBaselineFile(dir)).toBeNull();
+
+    await fs.writeFile(path.join(dir, BASELINE_FILE), "{ not json");
+    expect(await readBaselineFile(dir)).toBeNull();
+
+    const baseline = { version: 1, issues: [{ file: "a.js", line: 1, rule: "no-var", message: "m" }] };
+    await fs.writeFile(path.join(dir, BASELINE_FILE), JSON.stringify(baseline));
+    expect(await readBaselineFile(dir)).toEqual(baseline);
+    expect(consoleError).toHaveBeenCalledTimes(2);
+    consoleError.mockRestore();
+  });
+
+  it("creates a baseline from reported and baselined issues, sorted by location", () => {
+    const result: AnalysisResult = {
+      request_id: "req-1",
+      status: "completed",
+      issues: [issue(9, "eslint/no-var", "m", "b.js"), issue(5, "eslint/no-eval", "m", "a.js")],
+      suppressed: [
+        { ...issue(2, "eslint/no-var"), suppressed_by: "baseline" },
+        { ...issue(1, "eslint/no-undef"), suppressed_by: "inline" },
+      ],
+    };
+
+    const baseline = createBaseline(result);
+
+    expect(baseline).toMatchObject({ version: 1, generated_from: "req-1" });
+    expect(baseline.issues.map(({ file, line }) => `${file}:${line}`)).toEqual(["a.js:2", "a.js:5", "b.js:9"]);
+  });
+
+  it("keeps baseline paths relative to the repository root for a subdirectory", () => {
+    const result: AnalysisResult = {
+      request_id: "req-1",
+      status: "completed",
+      issues: [issue(1, "eslint/no-var", "m", "src/a.js")],
+      source: { subpath: "services/api/" },
+    };
+
+    const baseline = createBaseline(result);
+
+    expect(baseline.issues.map((entry) => entry.file)).toEqual(["services/api/src/a.js"]);
+    expect(scopeBaseline(baseline, "services/api").issues.map((entry) => entry.file)).toEqual(["src/a.js"]);
+  });
+
+  it("scopes a baseline to the entries below a subdirectory", () => {
+    const entry = { line: 1, rule: "no-var", message: "m" };
+    const baseline = {
+      version: 1 as const,
+      issues: [
+        { ...entry, file: "a.js" },
+        { ...entry, file: "services/api/a.js" },
+        { ...entry, file: "services/api-v2/a.js" },
+      ],
+    };
+
+    expect(scopeBaseline(baseline, "services/api").issues).toEqual([{ ...entry, file: "a.js" }]);
+  });
+});
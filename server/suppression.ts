@@ -0,0 +1,153 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import {
+  baselineFileSchema,
+  type AnalysisIssue,
+  type AnalysisResult,
+  type BaselineFile,
+  type SuppressedIssue,
+} from "@shared/schema";
+import { matchIssues } from "./compare";
+
+export const BASELINE_FILE = ".scripto-baseline.json";
+
+// Baseline entries survive any amount of code moving around a finding, but
+// only match the same message under the same rule
+const BASELINE_MATCH = { lineTolerance: Infinity, allowReworded: false };
+
+// `scripto-ignore` covers its own line and `scripto-ignore-next-line` the one
+// after it. Either takes an optional `: rule, rule` list; without one every
+// rule is ignored. Anything after the list is a free-text reason. Works after
+// `//`, `#` and `/*` comment markers.
+const IGNORE_COMMENT =
+  /(?:\/\/|#|\/\*)\s*scripto-ignore(-next-line)?\b(?:\s*:\s*([\w@/.-]+(?:\s*,\s*[\w@/.-]+)*))?/;
+
+// Line number -> ignored rules, null meaning all of them
+type Suppressions = Map<number, Set<string> | null>;
+
+export function parseSuppressions(content: string): Suppressions {
+  const suppressions: Suppressions = new Map();
+  content.split("\n").forEach((text, index) => {
+    const match = IGNORE_COMMENT.exec(text);
+    if (!match) return;
+
+    const line = index + 1 + (match[1] ? 1 : 0);
+    const rules = match[2]
+      ?.split(",")
+      .map((rule) => rule.trim())
+      .filter(Boolean);
+    if (!rules?.length) {
+      suppressions.set(line, null);
+      return;
+    }
+
+    const existing = suppressions.get(line);
+    if (existing === null) return;
+    suppressions.set(line, new Set([...Array.from(existing ?? []), ...rules]));
+  });
+  return suppressions;
+}
+
+// "no-unused-vars" matches "eslint/no-unused-vars" as well as itself
+export function ruleMatches(issueRule: string | undefined, rule: string): boolean {
+  if (!issueRule) return false;
+  return issueRule === rule || issueRule.slice(issueRule.indexOf("/") + 1) === rule;
+}
+
+function isSuppressedInline(issue: AnalysisIssue, suppressions: Suppressions | undefined): boolean {
+  if (!suppressions?.has(issue.line)) return false;
+  const rules = suppressions.get(issue.line);
+  return rules === null || Array.from(rules!).some((rule) => ruleMatches(issue.rule, rule));
+}
+
+// The repository's baseline file, or null when there is none. An invalid file
+// is reported and ignored rather than failing the analysis.
+export async function readBaselineFile(dir: string): Promise<BaselineFile | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(dir, BASELINE_FILE), "utf-8");
+  } catch {
+    return null;
+  }
+
+  try {
+    const parsed = baselineFileSchema.safeParse(JSON.parse(content));
+    if (parsed.success) return parsed.data;
+    console.error(`Ignoring invalid ${BASELINE_FILE}:`, parsed.error.message);
+  } catch (error) {
+    console.error(`Ignoring unreadable ${BASELINE_FILE}:`, error);
+  }
+  return null;
+}
+
+// Split issues into the ones to report and the ones hidden by an inline
+// comment or the baseline. `sources` maps relative paths to file contents.
+export function applySuppressions<T extends AnalysisIssue>(
+  issues: T[],
+  sources: Map<string, string>,
+  baseline: BaselineFile | null
+): { issues: T[]; suppressed: Array<T & Pick<SuppressedIssue, "suppressed_by">> } {
+  const suppressionsByFile = new Map<string, Suppressions>();
+  for (const [file, content] of Array.from(sources.entries())) {
+    if (content.includes("scripto-ignore")) {
+      suppressionsByFile.set(file, parseSuppressions(content));
+    }
+  }
+
+  const kept: T[] = [];
+  const suppressed: Array<T & Pick<SuppressedIssue, "suppressed_by">> = [];
+  for (const issue of issues) {
+    if (isSuppressedInline(issue, suppressionsByFile.get(issue.file))) {
+      suppressed.push({ ...issue, suppressed_by: "inline" });
+    } else {
+      kept.push(issue);
+    }
+  }
+
+  if (!baseline) return { issues: kept, suppressed };
+
+  const baselined = new Set(matchIssues(baseline.issues, kept, BASELINE_MATCH).map(([, index]) => index));
+  return {
+    issues: kept.filter((_, index) => !baselined.has(index)),
+    suppressed: [
+      ...suppressed,
+      ...kept.filter((_, index) => baselined.has(index)).map((issue) => ({ ...issue, suppressed_by: "baseline" as const })),
+    ],
+  };
+}
+
+// Baseline paths are relative to the repository root. For an analysis of one
+// of its directories, keep the entries below it with paths relative to it.
+export function scopeBaseline(baseline: BaselineFile, subpath: string): BaselineFile {
+  const issues = baseline.issues.flatMap((issue) => {
+    const file = path.posix.relative(subpath, issue.file);
+    return file.startsWith("../") ? [] : [{ ...issue, file }];
+  });
+  return { ...baseline, issues };
+}
+
+// A baseline accepting every current finding of a run. Issues hidden by inline
+// comments stay out, since the comments already cover them. Paths are made
+// relative to the repository root when the run analyzed a directory of it.
+export function createBaseline(result: AnalysisResult): BaselineFile {
+  const subpath = result.source?.subpath ?? "";
+  const issues = [
+    ...(result.issues || []),
+    ...(result.suppressed || []).filter((issue) => issue.suppressed_by === "baseline"),
+  ];
+
+  return {
+    version: 1,
+    generated_from: result.request_id,
+    created_at: new Date().toISOString(),
+    issues: issues
+      .map(({ file, line, rule, message, severity }) => ({
+        file: path.posix.join(subpath, file),
+        line,
+        rule,
+        message,
+        severity,
+      }))
+      .sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line),
+  };
+}
@@ -0,0 +1,32 @@
+import { sql } from "drizzle-orm";
+import { createRequire } from "module";
+import * as schema from "@shared/schema";
+import { createDb, type Database } from "./db";
+
+// Test helper: an in-memory Postgres for exercising DbStorage
+
+// The ESM build of drizzle-kit/api cannot load its CommonJS dependencies
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)(
+  "drizzle-kit/api"
+) as typeof import("drizzle-kit/api");
+
+// A fresh in-memory Postgres with the tables `drizzle-kit push` would create
+async function createTestDb(): Promise<Database> {
+  const db = createDb("pglite");
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await db.execute(sql.raw(statement));
+  }
+  return db;
+}
+
+// Starting PGlite takes seconds, so the tests in a file share one database and
+// empty it
+let testDb: Promise<Database> | undefined;
+
+export async function emptyTestDb(): Promise<Database> {
+  testDb ??= createTestDb();
+  const db = await testDb;
+  await db.execute(sql`truncate analysis_jobs cascade`);
+  return db;
+}
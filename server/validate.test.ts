@@ -0,0 +1,45 @@
+import { execFileSync } from "child_process";
+import { describe, expect, it } from "vitest";
+import { checkSyntax } from "./validate";
+
+function hasPython(): boolean {
+  try {
+    execFileSync("python3", ["--version"]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe("checkSyntax", () => {
+  it("accepts valid JavaScript, TypeScript and JSX", async () => {
+    expect(await checkSyntax("a.js", "const a = 1;\n")).toEqual({ valid: true });
+    expect(await checkSyntax("a.ts", "const a: number = 1;\n")).toEqual({ valid: true });
+    expect(await checkSyntax("App.tsx", "export const App = () => <div>{1}</div>;\n")).toEqual({ valid: true });
+  });
+
+  it("reports the first syntax error with its line", async () => {
+    expect(await checkSyntax("src/a.ts", "const a = 1;\nconst = 2;\nconst b = 3;\n")).toEqual({
+      valid: false,
+      error: "Line 2: Variable declaration expected.",
+    });
+  });
+
+  it("ignores type errors, which are expected without dependencies", async () => {
+    expect(await checkSyntax("a.ts", 'import x from "missing";\nconst n: number = "a";\n')).toEqual({
+      valid: true,
+    });
+  });
+
+  it("does not validate files without a parser", async () => {
+    expect(await checkSyntax("README.md", "# (unbalanced")).toBeNull();
+  });
+
+  it.runIf(hasPython())("parses Python with ast", async () => {
+    expect(await checkSyntax("a.py", "def f():\n    return 1\n")).toEqual({ valid: true });
+    expect(await checkSyntax("a.py", "def f(:\n    return 1\n")).toMatchObject({
+      valid: false,
+      error: expect.stringMatching(/^Line 1: /),
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { spawn } from "child_process";
+import * as path from "path";
+import ts from "typescript";
+
+export type SyntaxCheck = { valid: true } | { valid: false; error: string };
+
+const typescriptExtensions = new Set([".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"]);
+
+// transpileModule only reports syntactic diagnostics, which is exactly what we
+// want: type errors in an extracted tree without dependencies are expected
+function checkTypeScript(relativePath: string, content: string): SyntaxCheck {
+  const { diagnostics = [] } = ts.transpileModule(content, {
+    fileName: path.basename(relativePath),
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.Preserve, allowJs: true, noEmit: true },
+  });
+  const error = diagnostics.find((d) => d.category === ts.DiagnosticCategory.Error);
+  if (!error) return { valid: true };
+
+  const line = error.file && error.start !== undefined
+    ? error.file.getLineAndCharacterOfPosition(error.start).line + 1
+    : undefined;
+  const message = ts.flattenDiagnosticMessageText(error.messageText, "\n");
+  return { valid: false, error: line ? `Line ${line}: ${message}` : message };
+}
+
+let pythonMissing = false;
+
+const pythonCheckScript = `
+import ast, sys
+try:
+    ast.parse(sys.stdin.read(), sys.argv[1])
+except SyntaxError as error:
+    sys.stderr.write(f"Line {error.lineno}: {error.msg}")
+    sys.exit(1)
+`;
+
+// Resolves null when python3 is not installed
+function checkPython(relativePath: string, content: string, signal?: AbortSignal): Promise<SyntaxCheck | null> {
+  if (pythonMissing) return Promise.resolve(null);
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(
+      "python3",
+      ["-c", pythonCheckScript, relativePath],
+      { signal, timeout: 30000 }
+    );
+    let stderr = "";
+    child.stderr.on("data", (chunk) => {
+      stderr += chunk;
+    });
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      if (error.code === "ENOENT") {
+        pythonMissing = true;
+        console.warn("python3 not found - skipping syntax validation of Python files");
+        resolve(null);
+      } else {
+        reject(error);
+      }
+    });
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve({ valid: true });
+      } else {
+        resolve({ valid: false, error: stderr.trim() || `python exited with code ${code}` });
+      }
+    });
+    child.stdin.on("error", () => {
+      // The process may exit before reading all of stdin; the exit code is what counts
+    });
+    child.stdin.end(content);
+  });
+}
+
+// Parse a file with its language's parser. Resolves null when there is no
+// parser for the file type, in which case the content is not validated.
+export async function checkSyntax(
+  relativePath: string,
+  content: string,
+  signal?: AbortSignal
+): Promise<SyntaxCheck | null> {
+  const extension = path.extname(relativePath).toLowerCase();
+  if (typescriptExtensions.has(extension)) {
+    return checkTypeScript(relativePath, content);
+  }
+  if (extension === ".py") {
+    return checkPython(relativePath, content, signal);
+  }
+  return null;
+}
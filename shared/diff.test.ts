@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { fileHunks, hunkHeader } from "./diff";
+
+const lines = (count: number, change?: [number, string]) =>
+  Array.from({ length: count }, (_, index) => (change?.[0] === index ? change[1] : `line ${index + 1}`))
+    .join("\n") + "\n";
+
+describe("fileHunks", () => {
+  it("keeps changes further apart than twice the context in separate hunks", () => {
+    const original = lines(30);
+    const nearby = lines(30, [10, "changed"]).replace("line 14\n", "also changed\n");
+    const distant = lines(30, [2, "changed"]).replace("line 25\n", "also changed\n");
+
+    expect(fileHunks("a.js", original, nearby).hunks).toHaveLength(1);
+    expect(fileHunks("a.js", original, distant).hunks).toHaveLength(2);
+  });
+
+  it("has no hunks for an unchanged file", () => {
+    expect(fileHunks("a.js", "same\n", "same\n").hunks).toEqual([]);
+  });
+});
+
+describe("hunkHeader", () => {
+  it("addresses empty ranges by the line before them", () => {
+    const [insertion] = fileHunks("a.js", "", "new\n").hunks;
+    expect(hunkHeader(insertion)).toBe("@@ -0,0 +1,1 @@");
+
+    const [deletion] = fileHunks("a.js", "old\n", "").hunks;
+    expect(hunkHeader(deletion)).toBe("@@ -1,1 +0,0 @@");
+  });
+
+  it("uses the first line of non-empty ranges", () => {
+    const [hunk] = fileHunks("a.js", lines(10), lines(10, [5, "changed"])).hunks;
+    expect(hunkHeader(hunk)).toBe("@@ -3,7 +3,7 @@");
+  });
+});
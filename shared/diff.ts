@@ -0,0 +1,19 @@
+import { structuredPatch, type StructuredPatch, type StructuredPatchHunk } from "diff";
+
+// Hunks of a refactored file, shared by the server and the diff viewer so
+// that the hunk indices in accept/reject decisions mean the same on both sides
+const CONTEXT_LINES = 3;
+
+export function fileHunks(file: string, original: string, refactored: string): StructuredPatch {
+  return structuredPatch(`a/${file}`, `b/${file}`, original, refactored, undefined, undefined, {
+    context: CONTEXT_LINES,
+  });
+}
+
+// The @@ line of a hunk in the format `git apply` expects
+export function hunkHeader(hunk: StructuredPatchHunk): string {
+  // An empty range is addressed by the line before it
+  const oldStart = hunk.oldLines === 0 ? hunk.oldStart - 1 : hunk.oldStart;
+  const newStart = hunk.newLines === 0 ? hunk.newStart - 1 : hunk.newStart;
+  return `@@ -${oldStart},${hunk.oldLines} +${newStart},${hunk.newLines} @@`;
+}
@@ -1,24 +1,208 @@
 import { z } from "zod";
+import { pgTable, text, integer, serial, jsonb, timestamp, index } from "drizzle-orm/pg-core";
+
+export const analysisJobs = pgTable("analysis_jobs", {
+  id: text("id").primaryKey(),
+  status: text("status").notNull(),
+  analysisMode: text("analysis_mode").notNull(),
+  repoUrl: text("repo_url"),
+  ref: text("ref"),
+  subpath: text("subpath"),
+  commitSha: text("commit_sha"),
+  summary: jsonb("summary"),
+  results: jsonb("results"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+export const analysisIssues = pgTable("analysis_issues", {
+  id: serial("id").primaryKey(),
+  jobId: text("job_id").notNull().references(() => analysisJobs.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  severity: text("severity").notNull(),
+  file: text("file").notNull(),
+  line: integer("line").notNull(),
+  message: text("message").notNull(),
+  rule: text("rule"),
+  suggestion: text("suggestion"),
+  analyzer: text("analyzer"),
+}, (table) => [index("analysis_issues_job_id_idx").on(table.jobId)]);
+
+export const refactoredFiles = pgTable("refactored_files", {
+  id: serial("id").primaryKey(),
+  jobId: text("job_id").notNull().references(() => analysisJobs.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  file: text("file").notNull(),
+  original: text("original").notNull(),
+  refactored: text("refactored").notNull(),
+  rejectedHunks: integer("rejected_hunks").array().notNull().default([]),
+  validationStatus: text("validation_status"),
+  validationError: text("validation_error"),
+}, (table) => [index("refactored_files_job_id_idx").on(table.jobId)]);
+
+// Per-file LLM answers, keyed by a hash of the model and everything in the prompt
+export const llmCacheEntries = pgTable("llm_cache", {
+  key: text("key").primaryKey(),
+  value: text("value").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+export const jobProgressSchema = z.object({
+  stage: z.enum(["extracting", "discovering", "analyzing", "refactoring"]),
+  message: z.string(),
+  current: z.number().optional(),
+  total: z.number().optional(),
+  file: z.string().optional(),
+});
+
+export type JobProgress = z.infer<typeof jobProgressSchema>;
 
 export const analysisJobSchema = z.object({
   id: z.string(),
-  status: z.enum(["pending", "processing", "completed", "failed"]),
+  status: z.enum(["pending", "queued", "processing", "completed", "failed", "cancelled"]),
   createdAt: z.string(),
   updatedAt: z.string(),
   repoUrl: z.string().optional(),
+  // Branch, tag or commit requested for repoUrl, and the commit it resolved to
+  ref: z.string().optional(),
+  commitSha: z.string().optional(),
+  // Directory of the repository or ZIP that was analyzed
+  subpath: z.string().optional(),
   analysisMode: z.enum(["quick", "standard", "deep"]),
+  queuePosition: z.number().optional(),
+  progress: jobProgressSchema.optional(),
   results: z.any().optional(),
 });
 
 export type AnalysisJob = z.infer<typeof analysisJobSchema>;
 
+export const terminalJobStatuses: ReadonlyArray<AnalysisJob["status"]> = ["completed", "failed", "cancelled"];
+
+export function isTerminalStatus(status: AnalysisJob["status"]): boolean {
+  return terminalJobStatuses.includes(status);
+}
+
 export const insertAnalysisJobSchema = z.object({
   repoUrl: z.string().optional(),
+  ref: z.string().optional(),
+  subpath: z.string().optional(),
   analysisMode: z.enum(["quick", "standard", "deep"]),
 });
 
 export type InsertAnalysisJob = z.infer<typeof insertAnalysisJobSchema>;
 
+export const jobListQuerySchema = z.object({
+  status: analysisJobSchema.shape.status.optional(),
+  analysis_mode: analysisJobSchema.shape.analysisMode.optional(),
+  repo_url: z.string().optional(),
+  created_after: z.string().datetime().optional(),
+  created_before: z.string().datetime().optional(),
+  min_critical: z.coerce.number().int().min(0).optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type JobListQuery = z.infer<typeof jobListQuerySchema>;
+
+export type JobSummary = Omit<AnalysisJob, "results"> & {
+  summary?: AnalysisResult["summary"];
+};
+
+export interface JobListResponse {
+  jobs: JobSummary[];
+  next_cursor: string | null;
+}
+
+// Unified diff of one refactored file, with git-style a/ and b/ headers
+export const filePatchSchema = z.object({
+  file: z.string(),
+  diff: z.string(),
+  additions: z.number(),
+  deletions: z.number(),
+});
+
+export type FilePatch = z.infer<typeof filePatchSchema>;
+
+// Outcome of parsing a refactored file. "reverted" means the output never
+// parsed and the original content was kept; "skipped" means the file was left
+// unchanged or there is no parser for its language.
+export const refactorValidationSchema = z.object({
+  status: z.enum(["valid", "reverted", "skipped"]),
+  error: z.string().optional(),
+});
+
+export type RefactorValidation = z.infer<typeof refactorValidationSchema>;
+
+// Where the analyzed code came from. Result paths are relative to `subpath`.
+export const sourceInfoSchema = z.object({
+  repo_url: z.string().optional(),
+  ref: z.string().optional(),
+  commit_sha: z.string().optional(),
+  subpath: z.string().optional(),
+});
+
+export type SourceInfo = z.infer<typeof sourceInfoSchema>;
+
+// Set when unchanged files were carried over from an earlier job instead of
+// being analyzed again
+export const incrementalInfoSchema = z.object({
+  baseline_job_id: z.string(),
+  analyzed_files: z.number(),
+  reused_files: z.number(),
+});
+
+export type IncrementalInfo = z.infer<typeof incrementalInfoSchema>;
+
+const issueSeveritySchema = z.enum(["critical", "major", "minor"]);
+
+// Contents of a repository's .scripto.yml. Globs are matched against paths
+// relative to the repository root; a glob without a slash matches the file
+// name in any directory. Rules match with or without their analyzer prefix.
+export const repoConfigSchema = z.object({
+  include: z.array(z.string()).optional(),
+  exclude: z.array(z.string()).optional(),
+  // Analyzer ids to run; all registered analyzers when unset
+  analyzers: z.array(z.string()).optional(),
+  disabled_rules: z.array(z.string()).optional(),
+  severity_overrides: z.record(z.string(), issueSeveritySchema).optional(),
+  // In bytes; larger files are not analyzed
+  max_file_size: z.number().int().positive().optional(),
+  refactor: z.object({
+    enabled: z.boolean().optional(),
+    include: z.array(z.string()).optional(),
+    exclude: z.array(z.string()).optional(),
+  }).strict().optional(),
+}).strict();
+
+export type RepoConfig = z.infer<typeof repoConfigSchema>;
+
+// A source file discovery left out of the analysis. Directories ignored by
+// .gitignore are listed once with a trailing "/".
+export const skippedFileSchema = z.object({
+  file: z.string(),
+  reason: z.enum(["gitignore", "excluded", "too_large", "generated", "minified"]),
+  detail: z.string().optional(),
+});
+
+export type SkippedFile = z.infer<typeof skippedFileSchema>;
+
+export const analysisIssueSchema = z.object({
+  severity: issueSeveritySchema,
+  file: z.string(),
+  line: z.number(),
+  message: z.string(),
+  rule: z.string().optional(),
+  suggestion: z.string().optional(),
+  analyzer: z.string().optional(),
+});
+
+// An issue hidden by a `scripto-ignore` comment or the repository's baseline file
+export const suppressedIssueSchema = analysisIssueSchema.extend({
+  suppressed_by: z.enum(["inline", "baseline"]),
+});
+
+export type SuppressedIssue = z.infer<typeof suppressedIssueSchema>;
+
 export const analysisResultSchema = z.object({
   request_id: z.string(),
   status: z.string(),
@@ -30,24 +214,72 @@ export const analysisResultSchema = z.object({
       major: z.number(),
       minor: z.number(),
     }),
+    // Suppressed issues are listed separately and not counted above
+    suppressed_count: z.number().optional(),
   }).optional(),
-  issues: z.array(z.object({
-    severity: z.enum(["critical", "major", "minor"]),
-    file: z.string(),
-    line: z.number(),
-    message: z.string(),
-    rule: z.string().optional(),
-  })).optional(),
-  patches: z.array(z.any()).optional(),
+  issues: z.array(analysisIssueSchema).optional(),
+  suppressed: z.array(suppressedIssueSchema).optional(),
+  patches: z.array(filePatchSchema).optional(),
   refactoredFiles: z.array(z.object({
     file: z.string(),
     original: z.string(),
     refactored: z.string(),
+    // Indices of diff hunks the user rejected; downloads revert these
+    rejectedHunks: z.array(z.number()).optional(),
+    validation: refactorValidationSchema.optional(),
   })).optional(),
+  incremental: incrementalInfoSchema.optional(),
+  skipped: z.array(skippedFileSchema).optional(),
+  source: sourceInfoSchema.optional(),
+  // The repository's .scripto.yml as applied to this analysis
+  config: repoConfigSchema.optional(),
+  // Why a failed analysis failed, when the cause is in the submitted code
+  error: z.string().optional(),
 });
 
 export type AnalysisResult = z.infer<typeof analysisResultSchema>;
 
+export type AnalysisIssue = z.infer<typeof analysisIssueSchema>;
+
+export type IssueSeverity = AnalysisIssue["severity"];
+
+// The same finding in both runs; its line may have moved
+export interface IssueMatch {
+  base: AnalysisIssue;
+  head: AnalysisIssue;
+}
+
+export interface SeverityDelta {
+  base: number;
+  head: number;
+  delta: number;
+}
+
+// Issues of a later run (head) bucketed against an earlier one (base)
+export interface RunComparison {
+  base_job_id: string;
+  head_job_id: string;
+  new: AnalysisIssue[];
+  fixed: AnalysisIssue[];
+  unchanged: IssueMatch[];
+  severity_deltas: Record<IssueSeverity, SeverityDelta>;
+}
+
+// Contents of a committed .scripto-baseline.json. Matching issues are
+// suppressed as known findings, even after their lines move.
+export const baselineFileSchema = z.object({
+  version: z.literal(1),
+  generated_from: z.string().optional(),
+  created_at: z.string().optional(),
+  issues: z.array(
+    analysisIssueSchema
+      .pick({ file: true, line: true, rule: true, message: true, severity: true })
+      .partial({ severity: true })
+  ),
+});
+
+export type BaselineFile = z.infer<typeof baselineFileSchema>;
+
 export const callbackPayloadSchema = z.object({
   callback_secret: z.string(),
   request_id: z.string(),
@@ -56,3 +288,11 @@ export const callbackPayloadSchema = z.object({
 });
 
 export type CallbackPayload = z.infer<typeof callbackPayloadSchema>;
+
+export const hunkDecisionSchema = z.object({
+  file: z.string(),
+  hunk: z.number().int().min(0),
+  decision: z.enum(["accept", "reject"]),
+});
+
+export type HunkDecision = z.infer<typeof hunkDecisionSchema>;
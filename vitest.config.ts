@@ -0,0 +1,17 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["{server,shared,cli,client/src}/**/*.test.ts"],
+    environment: "node",
+    // PGlite and the analyzer tests start slowly on small machines
+    testTimeout: 30000,
+  },
+});